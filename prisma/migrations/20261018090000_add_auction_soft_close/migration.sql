@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "auction_rooms" ADD COLUMN     "extensionCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "maxExtensions" INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN     "originalEndTime" TIMESTAMP(3),
+ADD COLUMN     "softCloseExtensionMinutes" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "softCloseWindowMinutes" INTEGER NOT NULL DEFAULT 2;
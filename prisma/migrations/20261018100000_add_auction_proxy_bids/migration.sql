@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "auction_proxy_bids" (
+    "id" TEXT NOT NULL,
+    "auctionRoomId" TEXT NOT NULL,
+    "bidderId" TEXT NOT NULL,
+    "maxAmount" DOUBLE PRECISION NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auction_proxy_bids_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auction_proxy_bids_bidderId_idx" ON "auction_proxy_bids"("bidderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auction_proxy_bids_auctionRoomId_bidderId_key" ON "auction_proxy_bids"("auctionRoomId", "bidderId");
+
+-- AddForeignKey
+ALTER TABLE "auction_proxy_bids" ADD CONSTRAINT "auction_proxy_bids_auctionRoomId_fkey" FOREIGN KEY ("auctionRoomId") REFERENCES "auction_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "auction_rooms" ADD COLUMN     "outcome" TEXT;
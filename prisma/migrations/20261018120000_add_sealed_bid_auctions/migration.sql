@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "auction_rooms" ADD COLUMN     "auctionType" TEXT NOT NULL DEFAULT 'english',
+ADD COLUMN     "finalPrice" DOUBLE PRECISION,
+ADD COLUMN     "sealedPricing" TEXT;
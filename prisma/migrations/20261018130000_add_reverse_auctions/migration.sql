@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ProductType" ADD VALUE 'PROCUREMENT';
+
+-- AlterTable
+ALTER TABLE "auction_rooms" ADD COLUMN     "isReverse" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "auction_rooms" ADD COLUMN     "cancellationNote" TEXT,
+ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "cancelledBy" TEXT;
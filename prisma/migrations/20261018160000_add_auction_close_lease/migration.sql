@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "auction_rooms" ADD COLUMN     "closeAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "closeLeaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "lastCloseError" TEXT,
+ADD COLUMN     "nextCloseAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "sellerNotifiedAt" TIMESTAMP(3),
+ADD COLUMN     "winnerNotifiedAt" TIMESTAMP(3);
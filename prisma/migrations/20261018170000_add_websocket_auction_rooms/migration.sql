@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "websocket_connections" ADD COLUMN     "auction_room_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "websocket_connections_auction_room_id_idx" ON "websocket_connections"("auction_room_id");
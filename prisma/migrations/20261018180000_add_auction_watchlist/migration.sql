@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "auction_watches" (
+    "id" TEXT NOT NULL,
+    "auctionRoomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auction_watches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "auction_reminders" (
+    "id" TEXT NOT NULL,
+    "auctionRoomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "offsetMinutes" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auction_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auction_watches_userId_idx" ON "auction_watches"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auction_watches_auctionRoomId_userId_key" ON "auction_watches"("auctionRoomId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auction_reminders_auctionRoomId_userId_offsetMinutes_key" ON "auction_reminders"("auctionRoomId", "userId", "offsetMinutes");
+
+-- AddForeignKey
+ALTER TABLE "auction_watches" ADD CONSTRAINT "auction_watches_auctionRoomId_fkey" FOREIGN KEY ("auctionRoomId") REFERENCES "auction_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auction_reminders" ADD CONSTRAINT "auction_reminders_auctionRoomId_fkey" FOREIGN KEY ("auctionRoomId") REFERENCES "auction_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
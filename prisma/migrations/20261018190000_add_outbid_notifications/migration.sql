@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "auction_participants" ADD COLUMN     "lastOutbidNotifiedAt" TIMESTAMP(3);
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "auction_settlements" (
+    "id" TEXT NOT NULL,
+    "auctionRoomId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "winnerId" TEXT NOT NULL,
+    "finalPrice" DOUBLE PRECISION NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unit" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "sellerConfirmedAt" TIMESTAMP(3),
+    "winnerConfirmedAt" TIMESTAMP(3),
+    "disputedBy" TEXT,
+    "disputedAt" TIMESTAMP(3),
+    "disputeReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auction_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auction_settlements_auctionRoomId_key" ON "auction_settlements"("auctionRoomId");
+
+-- CreateIndex
+CREATE INDEX "auction_settlements_sellerId_idx" ON "auction_settlements"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "auction_settlements_winnerId_idx" ON "auction_settlements"("winnerId");
+
+-- AddForeignKey
+ALTER TABLE "auction_settlements" ADD CONSTRAINT "auction_settlements_auctionRoomId_fkey" FOREIGN KEY ("auctionRoomId") REFERENCES "auction_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
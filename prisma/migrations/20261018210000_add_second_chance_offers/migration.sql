@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "auction_second_chance_offers" (
+    "id" TEXT NOT NULL,
+    "auctionRoomId" TEXT NOT NULL,
+    "bidderId" TEXT NOT NULL,
+    "bidId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auction_second_chance_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auction_second_chance_offers_auctionRoomId_idx" ON "auction_second_chance_offers"("auctionRoomId");
+
+-- CreateIndex
+CREATE INDEX "auction_second_chance_offers_bidderId_idx" ON "auction_second_chance_offers"("bidderId");
+
+-- CreateIndex
+CREATE INDEX "auction_second_chance_offers_status_expiresAt_idx" ON "auction_second_chance_offers"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "auction_second_chance_offers" ADD CONSTRAINT "auction_second_chance_offers_auctionRoomId_fkey" FOREIGN KEY ("auctionRoomId") REFERENCES "auction_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX "auction_settlements_auctionRoomId_key";
+
+-- AlterTable
+ALTER TABLE "auction_bids" ADD COLUMN     "allocatedQuantity" INTEGER,
+ADD COLUMN     "quantity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "auction_rooms" ADD COLUMN     "clearingPrice" DOUBLE PRECISION,
+ADD COLUMN     "lotSize" INTEGER;
+
+-- AlterTable
+ALTER TABLE "auction_settlements" ADD COLUMN     "pricePerUnit" DOUBLE PRECISION,
+ADD COLUMN     "winnerNotifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auction_settlements_auctionRoomId_winnerId_key" ON "auction_settlements"("auctionRoomId", "winnerId");
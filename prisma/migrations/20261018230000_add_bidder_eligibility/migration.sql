@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "auction_rooms" ADD COLUMN     "allowedBidderRoles" "UserRole"[] DEFAULT ARRAY[]::"UserRole"[],
+ADD COLUMN     "depositAmount" DOUBLE PRECISION,
+ADD COLUMN     "maxBidderDistanceKm" DOUBLE PRECISION,
+ADD COLUMN     "requireCompletedProfile" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "requireVerifiedWhatsapp" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "auction_deposits" (
+    "id" TEXT NOT NULL,
+    "auctionRoomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reference" TEXT,
+    "note" TEXT,
+    "recordedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auction_deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auction_deposits_auctionRoomId_userId_idx" ON "auction_deposits"("auctionRoomId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "auction_deposits" ADD CONSTRAINT "auction_deposits_auctionRoomId_fkey" FOREIGN KEY ("auctionRoomId") REFERENCES "auction_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "auction_bids" ADD COLUMN     "retractedAt" TIMESTAMP(3),
+ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3),
+ADD COLUMN     "voidedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "auction_bid_audit_logs" (
+    "id" TEXT NOT NULL,
+    "auctionRoomId" TEXT NOT NULL,
+    "bidId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "reason" TEXT,
+    "previousHighestBid" DOUBLE PRECISION,
+    "previousHighestBidderId" TEXT,
+    "newHighestBid" DOUBLE PRECISION,
+    "newHighestBidderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auction_bid_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auction_bid_audit_logs_auctionRoomId_createdAt_idx" ON "auction_bid_audit_logs"("auctionRoomId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "auction_bid_audit_logs" ADD CONSTRAINT "auction_bid_audit_logs_auctionRoomId_fkey" FOREIGN KEY ("auctionRoomId") REFERENCES "auction_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
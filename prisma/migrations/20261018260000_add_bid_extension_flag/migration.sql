@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "auction_bids" ADD COLUMN     "extendedEndTime" BOOLEAN NOT NULL DEFAULT false;
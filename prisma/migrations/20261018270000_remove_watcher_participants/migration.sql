@@ -0,0 +1,7 @@
+-- Presence is tracked on websocket_connections; participant rows are
+-- for bidders only, so drop the rows created for mere watchers
+DELETE FROM "auction_participants" p
+WHERE NOT EXISTS (
+    SELECT 1 FROM "auction_bids" b
+    WHERE b."auctionRoomId" = p."auctionRoomId" AND b."bidderId" = p."userId"
+);
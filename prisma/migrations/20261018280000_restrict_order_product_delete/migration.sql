@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "orders" DROP CONSTRAINT "orders_productId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
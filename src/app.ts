@@ -2,14 +2,17 @@ import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 
-import { verifyFirebaseToken } from "./middleware/authMiddleware";
+import { verifyFirebaseToken, requireAdmin } from "./middleware/authMiddleware";
 import { userRouter } from "./modules/users/routes";
 import otpAuthRoutes from "./modules/auth/otpAuthRoutes";
 import productRoutes from "./modules/products/routes";
 import auctionRoutes from "./modules/auctions/routes";
 import marketPlaceRoutes from "./modules/marketplace/routes";
+import orderRoutes from "./modules/orders/routes";
 import { cronTestRouter } from "./routes/cronTest";
+import { adminRouter } from "./routes/adminRoutes";
 import { CronJobManager } from "./jobs/cronJobs";
+import { attachAuctionSocketServer } from "./modules/auctions/auctionSocketServer";
 
 import { completeUserOnboarding } from "./modules/users/userController";
 
@@ -70,16 +73,22 @@ app.use("/api/products", productRoutes);
 
 app.use("/api/marketplace", marketPlaceRoutes);
 
+// Marketplace order routes (protected)
+app.use("/api/orders", verifyFirebaseToken, orderRoutes);
+
 // Auction routes (protected)
 app.use("/api/auctions", verifyFirebaseToken, auctionRoutes);
 
 // Cron job test routes (admin only - should be protected in production)
 app.use("/api/admin/cron", cronTestRouter);
 
+// Admin routes (Firebase token with the admin custom claim)
+app.use("/api/admin", verifyFirebaseToken, requireAdmin, adminRouter);
+
 // ==== Start server ====
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3000;
 
-app.listen(PORT, "0.0.0.0", async () => {
+const server = app.listen(PORT, "0.0.0.0", async () => {
   console.log(`✅ Server listening on port ${PORT}`);
 
   // Initialize and start cron jobs
@@ -91,3 +100,8 @@ app.listen(PORT, "0.0.0.0", async () => {
     console.error("Failed to start cron jobs:", error);
   }
 });
+
+// Live auction rooms over WebSocket (AUCTION_REALTIME_TRANSPORT=websocket)
+if (attachAuctionSocketServer(server)) {
+  console.log(`🔌 Auction WebSocket rooms available at /ws/auctions`);
+}
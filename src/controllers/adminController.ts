@@ -3,6 +3,13 @@ import {
   processAuctionWinnerNotifications,
   notifyAuctionWinner,
 } from "../jobs/notificationJobs";
+import { auctionJobs } from "../jobs/auctionJobs";
+import { reconciliationJobs } from "../jobs/reconciliationJobs";
+import { AuctionService } from "../modules/auctions/auctionService";
+
+interface AuthenticatedRequest extends Request {
+  user: { uid: string };
+}
 
 /**
  * Manual trigger for processing auction winner notifications
@@ -70,3 +77,262 @@ export const triggerSingleWinnerNotification = async (
     });
   }
 };
+
+/**
+ * List auctions whose close failed repeatedly (dead letter)
+ * GET /api/admin/auctions/close-failures
+ */
+export const getAuctionCloseFailures = async (req: Request, res: Response) => {
+  try {
+    const failures = await auctionJobs.getFailedCloses();
+    res.json({
+      success: true,
+      data: failures,
+      count: failures.length,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: errorMessage,
+    });
+  }
+};
+
+/**
+ * Retry closing a dead-lettered auction
+ * POST /api/admin/auctions/:auctionId/retry-close
+ */
+export const retryAuctionClose = async (req: Request, res: Response) => {
+  try {
+    const { auctionId } = req.params;
+    const result = await auctionJobs.retryFailedClose(auctionId);
+
+    if (!result) {
+      return res.status(409).json({
+        success: false,
+        error: "Auction is not waiting in the close failure queue",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Auction closed successfully",
+      data: result,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: `Retry failed, the auction was rescheduled: ${errorMessage}`,
+    });
+  }
+};
+
+/**
+ * Reconciliation report for auctions live in the last `hours` hours
+ * GET /api/admin/auctions/reconciliation?hours=24
+ */
+export const getAuctionReconciliationReport = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const hours = req.query.hours ? parseInt(req.query.hours as string) : 24;
+    if (isNaN(hours) || hours <= 0 || hours > 24 * 30) {
+      return res.status(400).json({
+        success: false,
+        error: "hours must be between 1 and 720",
+      });
+    }
+
+    const result = await reconciliationJobs.reconcileRecentAuctions(hours);
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: errorMessage,
+    });
+  }
+};
+
+/**
+ * Reconcile a single auction, repairing it when requested
+ * GET /api/admin/auctions/:auctionId/reconciliation
+ * POST /api/admin/auctions/:auctionId/reconciliation/repair
+ */
+export const reconcileAuction = async (req: Request, res: Response) => {
+  try {
+    const { auctionId } = req.params;
+    const repair = req.method === "POST";
+    const report = await reconciliationJobs.reconcileAuction(auctionId, repair);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: "Auction not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: errorMessage,
+    });
+  }
+};
+
+/**
+ * Record an earnest-money deposit, refund or forfeit for a bidder
+ * POST /api/admin/auctions/:auctionId/deposits
+ * Body: { userId, type ("deposit" | "refund" | "forfeit"), amount,
+ *         reference?, note? }
+ */
+export const recordAuctionDeposit = async (req: Request, res: Response) => {
+  try {
+    const { auctionId } = req.params;
+    const { userId, type, amount, reference, note } = req.body || {};
+    const adminId = (req as AuthenticatedRequest).user?.uid;
+
+    if (!userId || !type || amount === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing required fields: userId, type, amount",
+      });
+    }
+
+    const result = await AuctionService.recordDeposit(auctionId, adminId, {
+      userId: String(userId),
+      type: String(type),
+      amount: Number(amount),
+      reference: reference ? String(reference) : undefined,
+      note: note ? String(note) : undefined,
+    });
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { deposit: result.deposit, balance: result.balance },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: errorMessage,
+    });
+  }
+};
+
+/**
+ * Deposit ledger of an auction with each bidder's balance
+ * GET /api/admin/auctions/:auctionId/deposits
+ */
+export const getAuctionDeposits = async (req: Request, res: Response) => {
+  try {
+    const { auctionId } = req.params;
+    const ledger = await AuctionService.getDeposits(auctionId);
+
+    if (!ledger) {
+      return res.status(404).json({
+        success: false,
+        error: "Auction not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: ledger,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: errorMessage,
+    });
+  }
+};
+
+/**
+ * Void a fraudulent bid in a running auction. The room is recalculated
+ * from the remaining bids and the bidder is notified.
+ * POST /api/admin/auctions/:auctionId/bids/:bidId/void
+ * Body: { reason }
+ */
+export const voidAuctionBid = async (req: Request, res: Response) => {
+  try {
+    const { auctionId, bidId } = req.params;
+    const { reason } = req.body || {};
+    const adminId = (req as AuthenticatedRequest).user?.uid;
+
+    const result = await AuctionService.voidBid(
+      auctionId,
+      bidId,
+      adminId,
+      reason ? String(reason) : ""
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: result.message,
+      data: { bid: result.bid, auction: result.auction },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: errorMessage,
+    });
+  }
+};
+
+/**
+ * Audit log of retracted and voided bids, newest first
+ * GET /api/admin/auctions/:auctionId/bid-audit
+ */
+export const getAuctionBidAuditLog = async (req: Request, res: Response) => {
+  try {
+    const { auctionId } = req.params;
+    const entries = await AuctionService.getBidAuditLog(auctionId);
+
+    res.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: errorMessage,
+    });
+  }
+};
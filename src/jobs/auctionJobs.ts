@@ -1,16 +1,40 @@
-import firebaseAdmin from "../firebase";
+import { Prisma } from "@prisma/client";
 import prisma from "../prisma";
-import { notifyAuctionWinner } from "./notificationJobs";
+import {
+  auctionRealtime,
+  parseRealtimeBids,
+} from "../modules/auctions/auctionRealtime";
+import {
+  allocateLots,
+  getStandingBids,
+} from "../modules/auctions/lotAllocation";
+import {
+  notifyAuctionStarted,
+  notifyAuctionWinner,
+  notifyLotWinners,
+  notifyNoBids,
+  notifyReserveNotMet,
+  notifySecondChanceClosed,
+  notifySellerAuctionSold,
+  notifySellerLotsSold,
+} from "./notificationJobs";
 
 /**
  * @fileoverview Auction Jobs - Handles auction lifecycle management
  *
  * This module manages the complete auction lifecycle including:
+ * - Activating scheduled auctions once their start time has passed
  * - Monitoring and processing expired auctions
- * - Synchronizing bid data from Firebase to PostgreSQL
+ * - Leasing rooms while they close, retrying failed closes with backoff
+ * - Settling rooms from the bids the API validated into PostgreSQL
  * - Calculating auction statistics and determining winners
+ * - Enforcing reserve prices (no winner when the reserve is not met)
+ * - Settling sealed-bid tenders at first or second price
+ * - Splitting multi-lot auctions between several winners
  * - Transferring products back to marketplace after auction ends
  * - Coordinating winner notifications through the notification service
+ * - Telling the seller the outcome and opening a settlement for sold lots
+ * - Expiring second-chance offers nobody answered
  *
  * @author Aarath Backend Team
  * @version 1.0.0
@@ -30,37 +54,139 @@ interface Bid {
 }
 
 interface AuctionUpdateData {
-  status: string;
   updatedAt: Date;
   totalBids: number;
   totalParticipants: number;
   currentHighestBid: number;
   currentHighestBidderId: string | null;
   winnerId: string | null;
+  finalPrice: number | null;
+  isReserveReached: boolean;
+  outcome: AuctionOutcome;
 }
 
+type AuctionOutcome = "sold" | "reserve_not_met" | "no_bids";
+
+// How long a worker owns a room while closing it
+const CLOSE_LEASE_MS = 5 * 60 * 1000;
+// Attempts before a room is parked in "close_failed" for an admin
+const MAX_CLOSE_ATTEMPTS = 5;
+const CLOSE_RETRY_BASE_MS = 60 * 1000;
+const CLOSE_RETRY_MAX_MS = 60 * 60 * 1000;
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
 
 /**
- * Format Firebase bids object into structured array
+ * Format the realtime room's bids object into structured array.
+ * Malformed entries are skipped (and reported by the reconciliation
+ * job) rather than saved with a zero amount or a made-up timestamp.
  */
-const formatBidsFromFirebase = (bids: any): Bid[] => {
-  return Object.entries(bids || {}).map(([id, bid]) => {
-    const bidObject =
-      typeof bid === "object" && bid !== null ? (bid as any) : {};
-    return {
-      id,
-      userName: bidObject.userName || "",
-      amount: bidObject.amount || 0,
-      bidderId: bidObject.bidderId || "",
-      userId: bidObject.userId || bidObject.bidderId || "",
-      timestamp: bidObject.timestamp || new Date().toISOString(),
-    };
-  });
+const formatRealtimeBids = (auctionId: string, bids: any): Bid[] => {
+  const { bids: parsed, malformed } = parseRealtimeBids(bids);
+  for (const entry of malformed) {
+    devLog(
+      `Skipping malformed RTDB bid ${entry.id} in auction ${auctionId}: ${entry.reason}`,
+      "error"
+    );
+  }
+
+  return parsed.map((bid) => ({
+    id: bid.id,
+    userName: bid.userName ?? "",
+    amount: bid.amount,
+    bidderId: bid.bidderId,
+    userId: bid.bidderId,
+    timestamp: bid.timestamp.toISOString(),
+  }));
 };
 
+/**
+ * Active AuctionBid rows in the shape used to settle a room.
+ * Retracted and voided bids never count.
+ */
+const toSettlementBids = (dbBids: any[]): Bid[] =>
+  (dbBids || [])
+    .filter((bid) => bid.isActive)
+    .map((bid) => ({
+      id: bid.id,
+      userName: bid.bidderName ?? "",
+      amount: bid.amount,
+      bidderId: bid.bidderId,
+      userId: bid.bidderId,
+      timestamp: bid.timestamp,
+    }));
+
+/**
+ * A reserve of 0 or null means the auction has no reserve. On reverse
+ * auctions the reserve is the buyer's maximum accepted price.
+ */
+const isReserveMet = (auction: any, amount: number): boolean => {
+  if (!auction.reservePrice) return true;
+  return auction.isReverse
+    ? amount <= auction.reservePrice
+    : amount >= auction.reservePrice;
+};
+
+const bidTime = (bid: Bid) =>
+  bid.timestamp ? new Date(bid.timestamp).getTime() : Infinity;
+
+/**
+ * Highest bid wins (lowest on reverse auctions); on equal amounts the
+ * earlier bid wins
+ */
+const findBestBid = (auction: any, bids: Bid[]): Bid | undefined =>
+  bids.reduce<Bid | undefined>((best, bid) => {
+    if (!best) return bid;
+    const better = auction.isReverse
+      ? bid.amount < best.amount
+      : bid.amount > best.amount;
+    if (better) return bid;
+    if (bid.amount === best.amount && bidTime(bid) < bidTime(best)) return bid;
+    return best;
+  }, undefined);
+
+/**
+ * Price the winner pays. Second-price tenders pay the best competing
+ * bid from another bidder (never below the reserve or starting bid, or
+ * above the buyer's ceiling on reverse tenders); every other auction
+ * pays the winning bid.
+ */
+const calculateFinalPrice = (auction: any, bids: Bid[], winner: Bid) => {
+  if (
+    auction.auctionType !== "sealed" ||
+    auction.sealedPricing !== "second_price"
+  ) {
+    return winner.amount;
+  }
+
+  const winnerId = winner.userId ?? winner.bidderId;
+  const competing = bids.filter(
+    (bid) => (bid.userId ?? bid.bidderId) !== winnerId
+  );
+  const runnerUp = findBestBid(auction, competing)?.amount;
+
+  if (auction.isReverse) {
+    const ceiling = auction.reservePrice
+      ? Math.min(auction.startingBid, auction.reservePrice)
+      : auction.startingBid;
+    return Math.max(winner.amount, Math.min(runnerUp ?? ceiling, ceiling));
+  }
+
+  const floor = Math.max(auction.startingBid, auction.reservePrice ?? 0);
+  return Math.min(winner.amount, Math.max(runnerUp ?? 0, floor));
+};
+
+/**
+ * Delay before the next close attempt: doubles per attempt, capped
+ */
+const closeRetryDelay = (attempts: number) =>
+  Math.min(
+    CLOSE_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0),
+    CLOSE_RETRY_MAX_MS
+  );
+
 /**
  * Log messages only in development mode
  */
@@ -77,18 +203,16 @@ const devLog = (message: string, type: "log" | "error" = "log") => {
 };
 
 // =============================================================================
-// FIREBASE DATA OPERATIONS
+// REALTIME DATA OPERATIONS
 // =============================================================================
 
 /**
- * Fetch auction data from Firebase Realtime Database
+ * Fetch the auction room from the realtime gateway (Firebase RTDB,
+ * WebSocket or in-memory, see auctionRealtime)
  */
-const fetchAuctionDataFromFirebase = async (auctionId: string) => {
+const fetchAuctionDataFromRealtime = async (auctionId: string) => {
   try {
-    const db = firebaseAdmin.database();
-    const auctionRoomRef = db.ref(`aarath/auctions/${auctionId}`);
-    const snapshot = await auctionRoomRef.once("value");
-    const auctionRoom = snapshot.val();
+    const auctionRoom = await auctionRealtime.getRoom(auctionId);
     if (auctionRoom) {
       return { auctionRoom };
     }
@@ -96,28 +220,109 @@ const fetchAuctionDataFromFirebase = async (auctionId: string) => {
     devLog(`No auctionRoom data found for auctionId: ${auctionId}`, "error");
     return null;
   } catch (error) {
-    devLog(`Error fetching auction data from Firebase: ${error}`, "error");
+    devLog(`Error fetching realtime auction data: ${error}`, "error");
     throw error;
   }
 };
 
+/**
+ * Warn about realtime room data that disagrees with the Postgres bids a
+ * room is settled from. Clients can write to the realtime room, so bids
+ * only found there and a different best price are drift to review (see
+ * the reconciliation job), never part of the outcome. A realtime outage
+ * must not block the close.
+ */
+const reportRealtimeDrift = async (auction: any, bids: Bid[]) => {
+  try {
+    const realtimeData = await fetchAuctionDataFromRealtime(auction.id);
+    if (!realtimeData) return;
+
+    const known = new Set(bids.map((bid) => bid.id));
+    const unknown = formatRealtimeBids(
+      auction.id,
+      realtimeData.auctionRoom.bids
+    ).filter((bid) => !known.has(bid.id));
+    if (unknown.length > 0) {
+      console.warn(
+        `Auction ${auction.id} closed without ${unknown.length} bids found only in the realtime room: ${unknown.map((bid) => bid.id).join(", ")}`
+      );
+    }
+
+    const realtimeBest = realtimeData.auctionRoom.currentHighestBid ?? null;
+    const best = findBestBid(auction, bids)?.amount ?? null;
+    if (realtimeBest !== null && realtimeBest !== best) {
+      console.warn(
+        `Auction ${auction.id} realtime best bid ${realtimeBest} differs from the recorded best bid ${best ?? "none"}`
+      );
+    }
+  } catch (error) {
+    devLog(
+      `Error comparing realtime room for auction ${auction.id}: ${error}`,
+      "error"
+    );
+  }
+};
+
 // =============================================================================
 // DATABASE QUERY OPERATIONS
 // =============================================================================
 
+/**
+ * Rooms a worker may claim for closing: active rooms past their end
+ * time, and rooms left in "processing" whose lease has lapsed (the
+ * worker died) or whose retry backoff has elapsed.
+ * Soft-close extensions move endTime itself, so an extended room
+ * drops out until its new end time passes.
+ */
+const closeClaimableWhere = (now: Date): Prisma.AuctionRoomWhereInput => ({
+  OR: [
+    { status: "active", endTime: { lte: now } },
+    {
+      status: "processing",
+      AND: [
+        {
+          OR: [
+            { closeLeaseExpiresAt: null },
+            { closeLeaseExpiresAt: { lt: now } },
+          ],
+        },
+        {
+          OR: [
+            { nextCloseAttemptAt: null },
+            { nextCloseAttemptAt: { lte: now } },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
 /**
  * Get all expired auctions that need processing
  */
 const getExpiredAuctions = () => {
+  return prisma.auctionRoom.findMany({
+    where: closeClaimableWhere(new Date()),
+    select: { id: true },
+  });
+};
+
+/**
+ * Get scheduled auctions whose start time has passed.
+ * No lower bound on startTime so rooms missed while the server
+ * was down are still picked up.
+ */
+const getAuctionsDueToStart = () => {
   const now = new Date();
   return prisma.auctionRoom.findMany({
     where: {
-      status: "active",
-      endTime: { lte: now },
+      status: "scheduled",
+      startTime: { lte: now },
     },
     include: {
-      product: true,
-      bids: { orderBy: { amount: "desc" } },
+      product: { select: { title: true, userId: true } },
+      participants: { select: { userId: true } },
+      watchers: { select: { userId: true } },
     },
   });
 };
@@ -127,47 +332,12 @@ const getExpiredAuctions = () => {
 // =============================================================================
 
 export const auctionJobs = {
-  /**
-   * Save bid history from Firebase to PostgreSQL database
-   * Prevents duplicate bids and marks winning bids
-   */
-  async saveBidHistory(
-    auctionId: string,
-    bids: Bid[],
-    currentHighestBid?: number
-  ): Promise<boolean> {
-    try {
-      for (const bid of bids) {
-        const exists = await prisma.auctionBid.findUnique({
-          where: { id: bid.id },
-        });
-
-        if (!exists) {
-          await prisma.auctionBid.create({
-            data: {
-              id: bid.id,
-              auctionRoomId: auctionId,
-              bidderName: bid.userName,
-              amount: bid.amount,
-              bidderId: bid.userId ?? bid.bidderId ?? "unknown",
-              timestamp: bid.timestamp ? new Date(bid.timestamp) : new Date(),
-              isWinningBid: Boolean(
-                currentHighestBid && bid.amount === currentHighestBid
-              ),
-            },
-          });
-        }
-      }
-      return true;
-    } catch (error) {
-      devLog(`Error saving bid history: ${error}`, "error");
-      throw error;
-    }
-  },
-
   /**
    * Transfer auction product back to marketplace environment
-   * Called when auction ends
+   * Called when auction ends. Procurement requirements from reverse
+   * auctions are buyer requests, not lots, so they are retired instead.
+   * Sold stock leaves the listing: a sold single lot sells out the
+   * product, a multi-lot room subtracts the quantity it allocated.
    */
   async transferAuctionProductEnvironment(auction: any): Promise<void> {
     try {
@@ -175,9 +345,57 @@ export const auctionJobs = {
         `Transferring product environment for auction ${auction.id} and product ${auction.productId}`
       );
 
-      await prisma.product.update({
-        where: { id: auction.productId },
-        data: { environment: "MARKETPLACE" },
+      if (auction.isReverse) {
+        await prisma.product.update({
+          where: { id: auction.productId },
+          data: { status: "INACTIVE" },
+        });
+        return;
+      }
+
+      const room = await prisma.auctionRoom.findUniqueOrThrow({
+        where: { id: auction.id },
+        select: { outcome: true, lotSize: true },
+      });
+
+      if (room.outcome !== "sold") {
+        await prisma.product.update({
+          where: { id: auction.productId },
+          data: { environment: "MARKETPLACE" },
+        });
+        return;
+      }
+
+      const allocated = room.lotSize
+        ? await prisma.auctionBid.aggregate({
+            where: { auctionRoomId: auction.id, isWinningBid: true },
+            _sum: { allocatedQuantity: true },
+          })
+        : null;
+
+      await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM products WHERE id = ${auction.productId} FOR UPDATE`;
+
+        const product = await tx.product.findUniqueOrThrow({
+          where: { id: auction.productId },
+          select: { environment: true, quantity: true, availableQty: true },
+        });
+        // A retried close already moved the stock
+        if (product.environment === "MARKETPLACE") return;
+
+        const stock = product.availableQty ?? product.quantity;
+        const remaining = allocated
+          ? Math.max(0, stock - (allocated._sum.allocatedQuantity ?? 0))
+          : 0;
+
+        await tx.product.update({
+          where: { id: auction.productId },
+          data: {
+            environment: "MARKETPLACE",
+            availableQty: remaining,
+            ...(remaining === 0 && { status: "SOLD_OUT" }),
+          },
+        });
       });
       return;
     } catch (error) {
@@ -189,23 +407,141 @@ export const auctionJobs = {
     }
   },
 
+  /**
+   * Promote scheduled auctions to active once their start time passes
+   * - Claims each room with a conditional update so it activates once
+   * - Opens the realtime room node for bidding
+   * - Notifies seller and watchers, unless the room already ended
+   *   while the server was down (the expiry job closes it next)
+   */
+  async activateScheduledAuctions() {
+    try {
+      const dueAuctions = await getAuctionsDueToStart();
+      let activated = 0;
+
+      for (const auction of dueAuctions) {
+        const claimed = await prisma.auctionRoom.updateMany({
+          where: { id: auction.id, status: "scheduled" },
+          data: { status: "active", closed: false },
+        });
+        if (claimed.count === 0) continue;
+        activated++;
+
+        try {
+          await auctionRealtime.setRoomStatus(auction.id, "active", false);
+        } catch (error) {
+          devLog(
+            `Error opening realtime room for auction ${auction.id}: ${error}`,
+            "error"
+          );
+        }
+
+        if (auction.endTime.getTime() > Date.now()) {
+          await notifyAuctionStarted(auction);
+        }
+      }
+
+      if (activated > 0) {
+        devLog(`Activated ${activated} scheduled auctions`);
+      }
+      return true;
+    } catch (error) {
+      devLog(`Error activating scheduled auctions: ${error}`, "error");
+      return false;
+    }
+  },
+
+  /**
+   * Claim a room for closing by moving it to "processing" with a lease.
+   * The conditional update is atomic, so only one worker wins the room;
+   * it also waits on the bid lock, so a last-second bid that extended
+   * the room makes the claim miss. Returns the claimed room or null.
+   */
+  async claimAuctionClose(auctionId: string) {
+    const now = new Date();
+    const claimed = await prisma.auctionRoom.updateMany({
+      where: { id: auctionId, ...closeClaimableWhere(now) },
+      data: {
+        status: "processing",
+        closeLeaseExpiresAt: new Date(now.getTime() + CLOSE_LEASE_MS),
+        closeAttempts: { increment: 1 },
+        nextCloseAttemptAt: null,
+      },
+    });
+
+    if (claimed.count === 0) return null;
+
+    return prisma.auctionRoom.findUnique({
+      where: { id: auctionId },
+      include: {
+        product: true,
+        bids: { orderBy: { amount: "desc" } },
+      },
+    });
+  },
+
+  /**
+   * Release a room whose close failed: schedule a retry with backoff,
+   * or park it in "close_failed" once the attempts run out
+   */
+  async recordCloseFailure(auction: any, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const deadLetter = auction.closeAttempts >= MAX_CLOSE_ATTEMPTS;
+
+    await prisma.auctionRoom.updateMany({
+      where: { id: auction.id, status: "processing" },
+      data: {
+        status: deadLetter ? "close_failed" : "processing",
+        closeLeaseExpiresAt: null,
+        nextCloseAttemptAt: deadLetter
+          ? null
+          : new Date(Date.now() + closeRetryDelay(auction.closeAttempts)),
+        lastCloseError: message.slice(0, 1000),
+      },
+    });
+
+    devLog(
+      deadLetter
+        ? `Auction ${auction.id} moved to close_failed after ${auction.closeAttempts} attempts`
+        : `Auction ${auction.id} close failed, retry scheduled`,
+      "error"
+    );
+  },
+
   /**
    * Main method to check and process expired auctions
+   * - Claims each expired room so only one worker closes it
    * - Fetches expired auctions from database
-   * - Retrieves bid data from Firebase
-   * - Saves bid history and updates statistics
+   * - Settles them from the validated Postgres bids
    * - Transfers products back to marketplace
    * - Notifies winners
    */
   async checkExpiredAuctions() {
     try {
       const expiredAuctions = await getExpiredAuctions();
-      for (const auction of expiredAuctions) {
-        await this.processExpiredAuction(auction);
+      let closed = 0;
+
+      for (const { id } of expiredAuctions) {
+        // Another worker may own the room, or a late bid extended it
+        const auction = await this.claimAuctionClose(id);
+        if (!auction) {
+          devLog(`Skipping auction ${id}, it was extended or claimed`);
+          continue;
+        }
+
+        // A failed room is already rescheduled, keep closing the rest
+        try {
+          await this.processExpiredAuction(auction);
+          closed++;
+        } catch {
+          continue;
+        }
       }
 
       if (expiredAuctions.length > 0) {
-        devLog(`Updated ${expiredAuctions.length} expired auctions`);
+        devLog(
+          `Closed ${closed} of ${expiredAuctions.length} expired auctions`
+        );
       }
       return true;
     } catch (error) {
@@ -215,60 +551,388 @@ export const auctionJobs = {
   },
 
   /**
-   * Process a single expired auction
+   * Close a single auction straight away (e.g. after a buy now bid)
+   * using the same pipeline as the expiry job
+   */
+  async closeAuctionNow(auctionId: string) {
+    const auction = await this.claimAuctionClose(auctionId);
+    if (!auction) {
+      return null;
+    }
+
+    return this.processExpiredAuction(auction);
+  },
+
+  /**
+   * Process a single expired auction claimed with claimAuctionClose.
+   * Every step is safe to repeat when a failed close is retried:
+   * stats and the product transfer overwrite with the same values,
+   * and notifications are
+   * skipped once their sent timestamp is recorded.
    */
   async processExpiredAuction(auction: any) {
     try {
-      // Fetch auction data from Firebase
-      const firebaseData = await fetchAuctionDataFromFirebase(auction.id);
-      console.log("firebaseData", firebaseData);
-      const bidsObj = firebaseData?.auctionRoom?.bids ?? {};
-      const bids = formatBidsFromFirebase(bidsObj);
-      const totalBids = firebaseData?.auctionRoom?.totalBids ?? 0;
-      const currentHighestBid =
-        firebaseData?.auctionRoom?.currentHighestBid ?? auction.startingBid;
       let winnerNotified = null;
-      // Process auction based on whether there were bids
-      if (bids.length > 0) {
-        await this.saveBidHistory(auction.id, bids, currentHighestBid);
-        const updatedAuction = await this.updateAuctionStats(
+      let sellerNotified = null;
+      let updatedAuction;
+      let currentHighestBid: number;
+
+      if (auction.lotSize) {
+        // Multi-lot bids are only taken through the API, so Postgres
+        // already holds all of them
+        updatedAuction = await this.closeMultiLotAuction(auction);
+        currentHighestBid =
+          updatedAuction.currentHighestBid ?? auction.startingBid;
+      } else {
+        ({ updatedAuction, currentHighestBid } =
+          await this.closeSingleLotAuction(auction));
+      }
+
+      if (
+        updatedAuction.outcome === "sold" &&
+        updatedAuction.winnerId &&
+        !auction.lotSize
+      ) {
+        await this.openSettlement(auction, updatedAuction);
+      }
+
+      // Notify winner if there is one
+      if (updatedAuction.winnerId && !auction.winnerNotifiedAt) {
+        winnerNotified = auction.lotSize
+          ? await notifyLotWinners(auction.id, auction.product.title)
+          : await notifyAuctionWinner(
+              auction.id,
+              updatedAuction.winnerId,
+              auction.product.title,
+              updatedAuction.finalPrice ?? currentHighestBid ?? 0
+            );
+        if (winnerNotified.success && !auction.lotSize) {
+          await prisma.auctionRoom.update({
+            where: { id: auction.id },
+            data: { winnerNotifiedAt: new Date() },
+          });
+        }
+      }
+
+      // Tell the seller how the auction ended
+      if (!auction.sellerNotifiedAt) {
+        sellerNotified = await this.notifySellerOfOutcome(
           auction,
-          bids,
-          currentHighestBid,
-          totalBids
+          updatedAuction,
+          currentHighestBid
         );
-        console.log("updatedAuction", updatedAuction);
-        devLog(`Auction ${auction.id} completed with ${bids.length} bids`);
-
-        // Notify winner if there is one
-        if (updatedAuction.winnerId) {
-          winnerNotified = await notifyAuctionWinner(
-            auction.id,
-            updatedAuction.winnerId,
-            auction.product.title,
-            currentHighestBid || 0
-          );
+        if (sellerNotified.success) {
+          await prisma.auctionRoom.update({
+            where: { id: auction.id },
+            data: { sellerNotifiedAt: new Date() },
+          });
         }
-      } else {
-        await this.updateAuctionStats(auction, []);
-        devLog(`Auction ${auction.id} completed with no bids`);
+      }
+
+      try {
+        await auctionRealtime.setRoomStatus(auction.id, "ended", true);
+      } catch (error) {
+        devLog(
+          `Error closing realtime room for auction ${auction.id}: ${error}`,
+          "error"
+        );
       }
 
       // Transfer product back to marketplace
       await this.transferAuctionProductEnvironment(auction);
-      return { notificationStatus: { ...winnerNotified }, success: true };
+
+      // Release the lease. Rooms whose winner could not be notified stay
+      // "ended" so the winner notification job retries them.
+      const closedRoom = await prisma.auctionRoom.findUniqueOrThrow({
+        where: { id: auction.id },
+        select: { winnerId: true, winnerNotifiedAt: true },
+      });
+      await prisma.auctionRoom.update({
+        where: { id: auction.id },
+        data: {
+          status:
+            closedRoom.winnerId && closedRoom.winnerNotifiedAt
+              ? "winner_notified"
+              : "ended",
+          closeLeaseExpiresAt: null,
+          nextCloseAttemptAt: null,
+          lastCloseError: null,
+        },
+      });
+
+      return {
+        notificationStatus: { ...winnerNotified },
+        sellerNotificationStatus: sellerNotified,
+        success: true,
+      };
     } catch (error) {
       devLog(
         `Error processing expired auction ${auction.id}: ${error}`,
         "error"
       );
+      await this.recordCloseFailure(auction, error);
       throw error;
     }
   },
 
+  /**
+   * Settle a single-lot room from its Postgres bids, which the API
+   * validated when they were placed, and pick the winner
+   */
+  async closeSingleLotAuction(auction: any) {
+    const bids = toSettlementBids(auction.bids);
+    await reportRealtimeDrift(auction, bids);
+
+    // On reverse auctions "highest" is the best (lowest) offer
+    const currentHighestBid: number =
+      findBestBid(auction, bids)?.amount ?? auction.startingBid;
+    const updatedAuction = await this.updateAuctionStats(
+      auction,
+      bids,
+      currentHighestBid
+    );
+    devLog(`Auction ${auction.id} completed with ${bids.length} bids`);
+
+    return { updatedAuction, currentHighestBid };
+  },
+
+  /**
+   * Settle a multi-lot room: allocate the quantity to the standing bids,
+   * flag each winning bid and bidder and open one settlement per winner.
+   * The room's winnerId is the best bidder and finalPrice the total sold.
+   * Safe to repeat when a failed close is retried.
+   */
+  async closeMultiLotAuction(auction: any) {
+    const bids = auction.bids.filter((bid: any) => bid.isActive);
+    const standing = getStandingBids(bids);
+    const best = standing[0];
+    const { allocations } = allocateLots(
+      bids,
+      auction.product.quantity,
+      auction.lotSize,
+      auction.reservePrice
+    );
+    const winnerId = allocations[0]?.bidderId ?? null;
+
+    return prisma.$transaction(async (tx) => {
+      await tx.auctionBid.updateMany({
+        where: { auctionRoomId: auction.id },
+        data: { isWinningBid: false, allocatedQuantity: null },
+      });
+
+      for (const allocation of allocations) {
+        await tx.auctionBid.update({
+          where: { id: allocation.bidId },
+          data: { isWinningBid: true, allocatedQuantity: allocation.quantity },
+        });
+        await tx.auctionParticipant.updateMany({
+          where: { auctionRoomId: auction.id, userId: allocation.bidderId },
+          data: { isWinner: true },
+        });
+        await tx.auctionSettlement.upsert({
+          where: {
+            auctionRoomId_winnerId: {
+              auctionRoomId: auction.id,
+              winnerId: allocation.bidderId,
+            },
+          },
+          create: {
+            auctionRoomId: auction.id,
+            sellerId: auction.product.userId,
+            winnerId: allocation.bidderId,
+            finalPrice: allocation.amount * allocation.quantity,
+            quantity: allocation.quantity,
+            unit: auction.product.unit,
+            pricePerUnit: allocation.amount,
+          },
+          update: {},
+        });
+      }
+
+      const updated = await tx.auctionRoom.update({
+        where: { id: auction.id },
+        data: {
+          totalBids: bids.length,
+          totalParticipants: standing.length,
+          currentHighestBid: best?.amount ?? auction.startingBid,
+          currentHighestBidderId: best?.bidderId ?? null,
+          winnerId,
+          finalPrice: allocations.length
+            ? allocations.reduce((sum, a) => sum + a.amount * a.quantity, 0)
+            : null,
+          clearingPrice: allocations.length
+            ? allocations[allocations.length - 1].amount
+            : null,
+          isReserveReached: allocations.length > 0,
+          outcome: !best
+            ? "no_bids"
+            : allocations.length
+              ? "sold"
+              : "reserve_not_met",
+        },
+      });
+
+      devLog(
+        `Auction ${auction.id} split between ${allocations.length} winners`
+      );
+      return updated;
+    });
+  },
+
+  /**
+   * Open the settlement between seller and winner for a sold lot.
+   * Safe to repeat when a failed close is retried.
+   */
+  async openSettlement(auction: any, closedAuction: any) {
+    const settlement = {
+      sellerId: auction.product.userId,
+      winnerId: closedAuction.winnerId,
+      finalPrice: closedAuction.finalPrice ?? closedAuction.currentHighestBid,
+      quantity: auction.product.quantity,
+      unit: auction.product.unit,
+    };
+
+    return prisma.auctionSettlement.upsert({
+      where: {
+        auctionRoomId_winnerId: {
+          auctionRoomId: auction.id,
+          winnerId: closedAuction.winnerId,
+        },
+      },
+      create: { auctionRoomId: auction.id, ...settlement },
+      update: {},
+    });
+  },
+
+  /**
+   * Send the seller the notification matching the auction outcome
+   */
+  async notifySellerOfOutcome(
+    auction: any,
+    closedAuction: any,
+    currentHighestBid: number
+  ) {
+    switch (closedAuction.outcome) {
+      case "sold":
+        if (auction.lotSize) {
+          return notifySellerLotsSold(
+            auction.product.userId,
+            auction.id,
+            auction.product.title
+          );
+        }
+        return notifySellerAuctionSold(
+          auction.product.userId,
+          auction.id,
+          auction.product.title,
+          closedAuction.winnerId,
+          closedAuction.finalPrice ?? currentHighestBid,
+          auction.isReverse
+        );
+      case "reserve_not_met":
+        return notifyReserveNotMet(
+          auction.product.userId,
+          auction.product.title,
+          currentHighestBid,
+          auction.reservePrice,
+          auction.isReverse
+        );
+      default:
+        return notifyNoBids(
+          auction.product.userId,
+          auction.product.title,
+          auction.isReverse
+        );
+    }
+  },
+
+  /**
+   * Expire pending second-chance offers past their deadline and tell the
+   * seller, who can then offer the lot to the next bidder
+   */
+  async expireSecondChanceOffers() {
+    try {
+      const expired = await prisma.auctionSecondChanceOffer.findMany({
+        where: { status: "pending", expiresAt: { lte: new Date() } },
+        include: {
+          auctionRoom: {
+            select: { product: { select: { title: true, userId: true } } },
+          },
+        },
+      });
+
+      let expiredCount = 0;
+      for (const offer of expired) {
+        // A response may have arrived since the query
+        const claimed = await prisma.auctionSecondChanceOffer.updateMany({
+          where: { id: offer.id, status: "pending" },
+          data: { status: "expired" },
+        });
+        if (claimed.count === 0) continue;
+
+        expiredCount++;
+        await notifySecondChanceClosed(
+          offer.auctionRoom.product.userId,
+          offer.auctionRoomId,
+          offer.auctionRoom.product.title,
+          "expired"
+        );
+      }
+
+      devLog(`Expired ${expiredCount} second-chance offers`);
+      return expiredCount;
+    } catch (error) {
+      devLog(`Error expiring second-chance offers: ${error}`, "error");
+      return 0;
+    }
+  },
+
+  /**
+   * Rooms parked in the "close_failed" dead letter state, for admins
+   */
+  async getFailedCloses() {
+    return prisma.auctionRoom.findMany({
+      where: { status: "close_failed" },
+      select: {
+        id: true,
+        productId: true,
+        endTime: true,
+        closeAttempts: true,
+        lastCloseError: true,
+        updatedAt: true,
+        product: { select: { title: true, userId: true } },
+      },
+      orderBy: { updatedAt: "desc" },
+    });
+  },
+
+  /**
+   * Put a dead-lettered room back in the close queue with fresh
+   * attempts and close it straight away.
+   * Returns null when the room is not in "close_failed".
+   */
+  async retryFailedClose(auctionId: string) {
+    const requeued = await prisma.auctionRoom.updateMany({
+      where: { id: auctionId, status: "close_failed" },
+      data: {
+        status: "processing",
+        closeAttempts: 0,
+        closeLeaseExpiresAt: null,
+        nextCloseAttemptAt: null,
+      },
+    });
+
+    if (requeued.count === 0) {
+      return null;
+    }
+
+    return this.closeAuctionNow(auctionId);
+  },
+
   /**
    * Update auction statistics and determine winner
-   * Calculates total bids, participants, and identifies the highest bidder
+   * Calculates total bids, participants, and identifies the highest bidder.
+   * The highest bidder only wins when the reserve price is met.
    */
   async updateAuctionStats(
     auction: any,
@@ -283,23 +947,30 @@ export const auctionJobs = {
       );
 
       // Find the highest bid and winner
-      let highestBid: Bid | undefined;
-      if (bids.length > 0) {
-        highestBid = bids.reduce(
-          (max, bid) => (bid.amount > (max?.amount ?? -Infinity) ? bid : max),
-          undefined as Bid | undefined
-        );
-      }
+      const highestBid = findBestBid(auction, bids);
       console.log("highestBid", highestBid);
+      const reserveMet = highestBid
+        ? isReserveMet(auction, highestBid.amount)
+        : false;
+      const winnerId = reserveMet ? (highestBid?.userId ?? null) : null;
       // Prepare update data
       const updateData: AuctionUpdateData = {
-        status: "ended",
         updatedAt: new Date(),
         totalBids: totalBids ?? bids.length,
         totalParticipants: uniqueBidders.size,
         currentHighestBid: currentHighestBid ?? auction.startingBid,
         currentHighestBidderId: highestBid?.userId ?? null,
-        winnerId: highestBid?.userId ?? null,
+        winnerId,
+        finalPrice:
+          winnerId && highestBid
+            ? calculateFinalPrice(auction, bids, highestBid)
+            : null,
+        isReserveReached: reserveMet,
+        outcome: !highestBid
+          ? "no_bids"
+          : reserveMet
+            ? "sold"
+            : "reserve_not_met",
       };
       console.log("updateData", updateData);
       // Update auction in database
@@ -307,6 +978,18 @@ export const auctionJobs = {
         where: { id: auction.id },
         data: updateData,
       });
+
+      // Flag the winning bid and participant
+      if (winnerId && highestBid) {
+        await prisma.auctionBid.updateMany({
+          where: { id: highestBid.id, auctionRoomId: auction.id },
+          data: { isWinningBid: true },
+        });
+        await prisma.auctionParticipant.updateMany({
+          where: { auctionRoomId: auction.id, userId: winnerId },
+          data: { isWinner: true },
+        });
+      }
       return result;
     } catch (error) {
       devLog(`Error updating auction stats: ${error}`, "error");
@@ -320,11 +1003,15 @@ export const auctionJobs = {
 //
 // import { auctionJobs } from './auctionJobs';
 //
-// // Process all expired auctions (typically called by cron job)
+// // Activate scheduled auctions and process expired ones (cron jobs)
+// await auctionJobs.activateScheduledAuctions();
 // await auctionJobs.checkExpiredAuctions();
 //
+// // Dead-lettered closes (status "close_failed") can be retried by admins
+// await auctionJobs.getFailedCloses();
+// await auctionJobs.retryFailedClose(auctionId);
+//
 // // Or process individual operations
-// await auctionJobs.saveBidHistory(auctionId, bids, highestBid);
 // await auctionJobs.updateAuctionStats(auction, bids);
 // await auctionJobs.transferAuctionProductEnvironment(auction);
 // =============================================================================
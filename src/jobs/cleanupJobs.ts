@@ -0,0 +1,76 @@
+import prisma from "../prisma";
+import { AuctionService } from "../modules/auctions/auctionService";
+
+/**
+ * @fileoverview Cleanup Jobs - Removes stale data
+ *
+ * - Expired WebSocket sessions, marking their users as having left the
+ *   auction room when they have no other live session there
+ *
+ * @author Aarath Backend Team
+ * @version 1.0.0
+ */
+
+/**
+ * Log messages only in development mode
+ */
+const devLog = (message: string, type: "log" | "error" = "log") => {
+  if (process.env.NODE_ENV === "development") {
+    if (type === "error") {
+      // eslint-disable-next-line no-console
+      console.error(message);
+    } else {
+      // eslint-disable-next-line no-console
+      console.log(message);
+    }
+  }
+};
+
+export const cleanupJobs = {
+  /**
+   * Delete WebSocket sessions whose heartbeat lapsed. Users left with
+   * no live session in a room are marked as having left it.
+   */
+  async cleanupExpiredSessions() {
+    try {
+      const now = new Date();
+      const expired = await prisma.webSocketConnection.findMany({
+        where: { expiresAt: { lt: now } },
+        select: { id: true, auctionRoomId: true, userId: true },
+      });
+
+      if (expired.length === 0) {
+        return 0;
+      }
+
+      await prisma.webSocketConnection.deleteMany({
+        where: { id: { in: expired.map((session) => session.id) } },
+      });
+
+      const rooms = new Map<string, { auctionId: string; userId: string }>();
+      for (const { auctionRoomId, userId } of expired) {
+        if (auctionRoomId && userId) {
+          rooms.set(`${auctionRoomId}:${userId}`, {
+            auctionId: auctionRoomId,
+            userId,
+          });
+        }
+      }
+
+      for (const { auctionId, userId } of rooms.values()) {
+        const liveSessions = await prisma.webSocketConnection.count({
+          where: { auctionRoomId: auctionId, userId, expiresAt: { gte: now } },
+        });
+        if (liveSessions === 0) {
+          await AuctionService.markPresence(auctionId, userId, false);
+        }
+      }
+
+      devLog(`Removed ${expired.length} expired WebSocket sessions`);
+      return expired.length;
+    } catch (error) {
+      devLog(`Error cleaning up expired sessions: ${error}`, "error");
+      return 0;
+    }
+  },
+};
@@ -1,7 +1,11 @@
 import * as cron from "node-cron";
 import { auctionJobs } from "./auctionJobs";
-import { processAuctionWinnerNotifications } from "./notificationJobs";
-// import { cleanupJobs } from "./cleanupJobs";
+import { reconciliationJobs } from "./reconciliationJobs";
+import {
+  processAuctionWinnerNotifications,
+  sendAuctionEndingReminders,
+} from "./notificationJobs";
+import { cleanupJobs } from "./cleanupJobs";
 // import { statsJobs } from "./statsJobs";
 
 export class CronJobManager {
@@ -18,6 +22,13 @@ export class CronJobManager {
 
     try {
       // Auction-related jobs
+      this.jobs.push(
+        // Activate scheduled auctions whose start time has passed every minute
+        cron.schedule("*/1 * * * *", async () => {
+          await auctionJobs.activateScheduledAuctions();
+        })
+      );
+
       this.jobs.push(
         // Check for expired auctions every 5 minutes
         cron.schedule("*/1 * * * *", async () => {
@@ -25,14 +36,52 @@ export class CronJobManager {
         })
       );
 
-      // this.jobs.push(
-      //   // Send auction ending reminders every 10 minutes
-      //   cron.schedule("*/10 * * * *", async () => {
-      //     await notificationJobs.sendAuctionEndingReminders();
-      //   })
-      // );
+      this.jobs.push(
+        // Expire unanswered second-chance offers every 10 minutes
+        cron.schedule("*/10 * * * *", async () => {
+          await auctionJobs.expireSecondChanceOffers();
+        })
+      );
+
+      this.jobs.push(
+        // Report RTDB/Postgres drift for recent auctions every hour
+        cron.schedule("0 * * * *", async () => {
+          try {
+            const result = await reconciliationJobs.reconcileRecentAuctions(24);
+            if (result.roomsWithIssues > 0 || result.failedRooms > 0) {
+              console.error(
+                `❌ Auction reconciliation: ${result.roomsWithIssues} of ${result.checkedRooms} rooms drifted, ${result.failedRooms} failed`,
+                result.reports.map((report) => ({
+                  auctionId: report.auctionId,
+                  issues: report.issues,
+                }))
+              );
+            }
+          } catch (error) {
+            console.error("❌ Error reconciling auctions:", error);
+          }
+        })
+      );
+
+      this.jobs.push(
+        // Remind watchers of auctions ending soon every minute
+        cron.schedule("*/1 * * * *", async () => {
+          try {
+            await sendAuctionEndingReminders();
+          } catch (error) {
+            console.error("❌ Error sending auction ending reminders:", error);
+          }
+        })
+      );
 
       // Cleanup jobs
+      this.jobs.push(
+        // Remove expired WebSocket sessions every 5 minutes
+        cron.schedule("*/5 * * * *", async () => {
+          await cleanupJobs.cleanupExpiredSessions();
+        })
+      );
+
       // this.jobs.push(
       //   // Clean up old data daily at 2:00 AM
       //   cron.schedule("0 2 * * *", async () => {
@@ -63,19 +112,16 @@ export class CronJobManager {
       // );
 
       // Notification jobs
-      // this.jobs.push(
-      //   // Process auction winner notifications every 5 minutes
-      //   cron.schedule("*/5 * * * *", async () => {
-      //     try {
-      //       const result = await processAuctionWinnerNotifications();
-      //       if (result?.totalProcessed && result.totalProcessed > 0) {
-      //         // Winner notifications processed successfully
-      //       }
-      //     } catch (error) {
-      //       console.error("❌ Error processing winner notifications:", error);
-      //     }
-      //   })
-      // );
+      this.jobs.push(
+        // Retry winner notifications the close could not send every 5 minutes
+        cron.schedule("*/5 * * * *", async () => {
+          try {
+            await processAuctionWinnerNotifications();
+          } catch (error) {
+            console.error("❌ Error processing winner notifications:", error);
+          }
+        })
+      );
 
       // this.jobs.push(
       //   // Process notification queue every 2 minutes
@@ -1,6 +1,11 @@
 import prisma from "../prisma";
-import { sendSMS, sendWhatsAppWinnerNotification } from "../config/twilio";
+import {
+  sendSMS,
+  sendWhatsApp,
+  sendWhatsAppWinnerNotification,
+} from "../config/twilio";
 import { sendEmail, createWinnerNotificationHTML } from "../config/email";
+import { AuctionService } from "../modules/auctions/auctionService";
 
 /**
  * @fileoverview Winner Notification Service
@@ -38,6 +43,13 @@ interface AdditionalNotifications {
   sms: NotificationResult | null;
 }
 
+// Quantity won in a multi-lot auction
+interface WinnerLot {
+  quantity: number;
+  unit: string;
+  pricePerUnit: number;
+}
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
@@ -57,14 +69,27 @@ const devLog = (message: string, type: "log" | "error" = "log"): void => {
   }
 };
 
+/**
+ * Link that opens the auction room in the app
+ */
+export const getAuctionDeepLink = (auctionId: string): string => {
+  const base = process.env.AUCTION_DEEP_LINK_BASE_URL || "aarath://auctions";
+  return `${base.replace(/\/$/, "")}/${auctionId}`;
+};
+
 /**
  * Create congratulatory message for winner
  */
 const createWinnerMessage = (
   winnerName: string,
   auctionTitle: string,
-  formattedBid: string
+  formattedBid: string,
+  lot?: WinnerLot
 ): string => {
+  if (lot) {
+    return `🎉 Congratulations ${winnerName}! 
+You have WON ${lot.quantity} ${lot.unit} in the auction for "${auctionTitle}" at ₹${lot.pricePerUnit.toLocaleString()} per unit (₹${formattedBid} in total).`;
+  }
   return `🎉 Congratulations ${winnerName}! 
 You have WON the auction for "${auctionTitle}" with your bid of ₹${formattedBid}.`;
 };
@@ -256,13 +281,15 @@ const sendAdditionalNotifications = async (
 
 /**
  * Send notification to auction winner
- * Email is mandatory, WhatsApp/SMS are optional additional channels
+ * Email is mandatory, WhatsApp/SMS are optional additional channels.
+ * Multi-lot winners pass the lot they won; winningBid is then their total.
  */
 export const notifyAuctionWinner = async (
   auctionId: string,
   winnerId: string,
   auctionTitle: string,
-  winningBid: number
+  winningBid: number,
+  lot?: WinnerLot
 ) => {
   try {
     // 1. Get and validate winner data
@@ -271,7 +298,12 @@ export const notifyAuctionWinner = async (
     // 2. Prepare notification content
     const winnerName = winner.businessName || "Winner";
     const formattedBid = winningBid.toLocaleString();
-    const message = createWinnerMessage(winnerName, auctionTitle, formattedBid);
+    const message = createWinnerMessage(
+      winnerName,
+      auctionTitle,
+      formattedBid,
+      lot
+    );
 
     console.log("Sending mandatory email notification", winner);
     const emailResult = await sendMandatoryEmailNotification(
@@ -329,6 +361,688 @@ export const notifyAuctionWinner = async (
     };
   }
 };
+// =============================================================================
+// GENERAL USER NOTIFICATIONS
+// =============================================================================
+
+interface RecipientData {
+  id: string;
+  businessName: string | null;
+  whatsapp: string | null;
+  email: string | null;
+}
+
+interface UserNotificationResult {
+  userId: string;
+  email: NotificationResult | null;
+  whatsapp: NotificationResult | null;
+  sms: NotificationResult | null;
+}
+
+/**
+ * Notify a user on every channel they have.
+ * Email when available, WhatsApp with SMS as fallback.
+ * Missing users are skipped rather than failing the caller.
+ */
+const notifyUser = async (
+  userId: string,
+  subject: string,
+  message: string
+): Promise<UserNotificationResult> => {
+  const result: UserNotificationResult = {
+    userId,
+    email: null,
+    whatsapp: null,
+    sms: null,
+  };
+
+  const recipient: RecipientData | null = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, businessName: true, whatsapp: true, email: true },
+  });
+
+  if (!recipient) {
+    devLog(`⚠️ Skipping notification, user ${userId} not found`);
+    return result;
+  }
+
+  if (recipient.email) {
+    const emailResult = await sendEmail(recipient.email, subject, message);
+    result.email = {
+      success: emailResult.success,
+      messageId: emailResult.messageId,
+      error: emailResult.error,
+    };
+  }
+
+  if (recipient.whatsapp) {
+    result.whatsapp = await sendWhatsApp(recipient.whatsapp, message);
+    if (!result.whatsapp.success) {
+      result.sms = await sendSMS(recipient.whatsapp, message);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Notify the seller, the room's watchers and anyone already in the room
+ * that an auction is live
+ */
+export const notifyAuctionStarted = async (auction: {
+  id: string;
+  endTime: Date;
+  product: { title: string; userId: string };
+  participants: { userId: string }[];
+  watchers: { userId: string }[];
+}) => {
+  try {
+    const title = auction.product.title;
+    const endsAt = auction.endTime.toLocaleString("en-PK", {
+      timeZone: "Asia/Karachi",
+    });
+
+    const recipients = [...auction.participants, ...auction.watchers]
+      .map((p) => p.userId)
+      .filter((userId) => userId !== auction.product.userId);
+
+    const results = await Promise.all([
+      notifyUser(
+        auction.product.userId,
+        `🔔 Your auction for "${title}" is now live`,
+        `Your auction for "${title}" is now live and accepting bids until ${endsAt}.`
+      ),
+      ...[...new Set(recipients)].map((userId) =>
+        notifyUser(
+          userId,
+          `🔔 Auction for "${title}" is now live`,
+          `The auction for "${title}" is now live. Bidding closes at ${endsAt}.`
+        )
+      ),
+    ]);
+
+    return { success: true, results };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send auction start notifications for ${auction.id}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell everyone in the room, and the seller when someone else cancelled,
+ * that an auction was cancelled and no sale will take place
+ */
+export const notifyAuctionCancelled = async (
+  auction: {
+    id: string;
+    isReverse: boolean;
+    product: { title: string; userId: string };
+    participants: { userId: string }[];
+  },
+  reason: string,
+  cancelledBy: string
+) => {
+  try {
+    const title = auction.product.title;
+    const readableReason = reason.replace(/_/g, " ");
+
+    const recipients = auction.participants
+      .map((p) => p.userId)
+      .filter((userId) => userId !== auction.product.userId);
+
+    const results = await Promise.all([
+      ...(cancelledBy !== auction.product.userId
+        ? [
+            notifyUser(
+              auction.product.userId,
+              `Your auction for "${title}" was cancelled`,
+              // Procurement requests are retired, not returned to sale
+              auction.isReverse
+                ? `Your procurement request "${title}" was cancelled by an administrator (reason: ${readableReason}). It has been closed without an award.`
+                : `Your auction for "${title}" was cancelled by an administrator (reason: ${readableReason}). The lot has been returned to the marketplace.`
+            ),
+          ]
+        : []),
+      ...[...new Set(recipients)].map((userId) =>
+        notifyUser(
+          userId,
+          `Auction for "${title}" was cancelled`,
+          `The auction for "${title}" was cancelled (reason: ${readableReason}). Your bids are void and no sale will take place.`
+        )
+      ),
+    ]);
+
+    return { success: true, results };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send auction cancellation notifications for ${auction.id}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell the seller their auction closed below the reserve price, so
+ * there is no winner and the lot returns to the marketplace. For reverse
+ * auctions the recipient is the buyer and the reserve is their maximum.
+ */
+export const notifyReserveNotMet = async (
+  sellerId: string,
+  auctionTitle: string,
+  highestBid: number,
+  reservePrice: number | null,
+  isReverse = false
+) => {
+  try {
+    const message = isReverse
+      ? `Your procurement request "${auctionTitle}" has ended without an award. The lowest offer of ₹${highestBid.toLocaleString()} was above your maximum price of ₹${(reservePrice ?? 0).toLocaleString()}.`
+      : `Your auction for "${auctionTitle}" has ended without a sale. The highest bid of ₹${highestBid.toLocaleString()} did not meet your reserve price of ₹${(reservePrice ?? 0).toLocaleString()}. The lot has been returned to the marketplace.`;
+    const result = await notifyUser(
+      sellerId,
+      `Reserve not met for "${auctionTitle}"`,
+      message
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send reserve not met notification to ${sellerId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Notify every winner of a multi-lot auction who has not been told yet,
+ * one settlement at a time. The room counts as notified once all are.
+ */
+export const notifyLotWinners = async (
+  auctionId: string,
+  auctionTitle: string
+) => {
+  const pending = await prisma.auctionSettlement.findMany({
+    where: { auctionRoomId: auctionId, winnerNotifiedAt: null },
+  });
+
+  let failed = 0;
+  for (const settlement of pending) {
+    const result = await notifyAuctionWinner(
+      auctionId,
+      settlement.winnerId,
+      auctionTitle,
+      settlement.finalPrice,
+      {
+        quantity: settlement.quantity,
+        unit: settlement.unit,
+        pricePerUnit:
+          settlement.pricePerUnit ??
+          settlement.finalPrice / settlement.quantity,
+      }
+    );
+    if (result.success) {
+      await prisma.auctionSettlement.update({
+        where: { id: settlement.id },
+        data: { winnerNotifiedAt: new Date() },
+      });
+    } else {
+      failed++;
+    }
+  }
+
+  if (failed > 0) {
+    return {
+      success: false,
+      notified: pending.length - failed,
+      error: `${failed} of ${pending.length} winners could not be notified`,
+    };
+  }
+
+  await prisma.auctionRoom.update({
+    where: { id: auctionId },
+    data: { winnerNotifiedAt: new Date() },
+  });
+  return { success: true, notified: pending.length };
+};
+
+/**
+ * Tell the seller of a multi-lot auction how the quantity was split and
+ * who to contact to settle each part
+ */
+export const notifySellerLotsSold = async (
+  sellerId: string,
+  auctionId: string,
+  auctionTitle: string
+) => {
+  try {
+    const settlements = await prisma.auctionSettlement.findMany({
+      where: { auctionRoomId: auctionId },
+      orderBy: { finalPrice: "desc" },
+    });
+    const winners = await prisma.user.findMany({
+      where: { id: { in: settlements.map((s) => s.winnerId) } },
+      select: {
+        id: true,
+        name: true,
+        personalName: true,
+        businessName: true,
+        companyName: true,
+        email: true,
+        whatsapp: true,
+      },
+    });
+
+    const total = settlements.reduce((sum, s) => sum + s.finalPrice, 0);
+    const lines = settlements.map((settlement) => {
+      const winner = winners.find((w) => w.id === settlement.winnerId);
+      const name =
+        winner?.businessName ||
+        winner?.companyName ||
+        winner?.personalName ||
+        winner?.name ||
+        "Not provided";
+      return `- ${settlement.quantity} ${settlement.unit} at ₹${(settlement.pricePerUnit ?? 0).toLocaleString()} per unit (₹${settlement.finalPrice.toLocaleString()}): ${name}, ${winner?.email || "no email"}, ${winner?.whatsapp || "no WhatsApp"}`;
+    });
+    const link = getAuctionDeepLink(auctionId);
+    const message = `Your auction for "${auctionTitle}" has sold to ${settlements.length} buyer(s) for ₹${total.toLocaleString()} in total.\n\nWinners:\n${lines.join("\n")}\n\nPlease confirm or dispute each settlement in the app: ${link}`;
+
+    const result = await notifyUser(
+      sellerId,
+      `🎉 Your auction for "${auctionTitle}" has sold`,
+      message
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send auction sold notification to ${sellerId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell the seller their auction sold and who to contact to settle it.
+ * On reverse auctions the recipient is the buyer and the winner is the
+ * supplier whose offer was accepted.
+ */
+export const notifySellerAuctionSold = async (
+  sellerId: string,
+  auctionId: string,
+  auctionTitle: string,
+  winnerId: string,
+  finalPrice: number,
+  isReverse = false
+) => {
+  try {
+    const winner = await prisma.user.findUnique({
+      where: { id: winnerId },
+      select: {
+        name: true,
+        personalName: true,
+        businessName: true,
+        companyName: true,
+        email: true,
+        whatsapp: true,
+      },
+    });
+
+    const contact = [
+      `Name: ${winner?.businessName || winner?.companyName || winner?.personalName || winner?.name || "Not provided"}`,
+      `Email: ${winner?.email || "Not provided"}`,
+      `WhatsApp: ${winner?.whatsapp || "Not provided"}`,
+    ].join("\n");
+    const link = getAuctionDeepLink(auctionId);
+    const message = isReverse
+      ? `Your procurement request "${auctionTitle}" has been awarded at ₹${finalPrice.toLocaleString()}.\n\nSupplier contact:\n${contact}\n\nPlease confirm or dispute the settlement in the app: ${link}`
+      : `Your auction for "${auctionTitle}" has sold for ₹${finalPrice.toLocaleString()}.\n\nWinner contact:\n${contact}\n\nPlease confirm or dispute the settlement in the app: ${link}`;
+
+    const result = await notifyUser(
+      sellerId,
+      isReverse
+        ? `Your procurement request "${auctionTitle}" has been awarded`
+        : `🎉 Your auction for "${auctionTitle}" has sold`,
+      message
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send auction sold notification to ${sellerId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell the seller their auction closed without a single bid
+ */
+export const notifyNoBids = async (
+  sellerId: string,
+  auctionTitle: string,
+  isReverse = false
+) => {
+  try {
+    const message = isReverse
+      ? `Your procurement request "${auctionTitle}" has ended without any offers.`
+      : `Your auction for "${auctionTitle}" has ended without any bids. The lot has been returned to the marketplace.`;
+    const result = await notifyUser(
+      sellerId,
+      `No bids for "${auctionTitle}"`,
+      message
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send no bids notification to ${sellerId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell the other party that a settlement was disputed
+ */
+export const notifySettlementDisputed = async (
+  counterpartyId: string,
+  auctionId: string,
+  auctionTitle: string,
+  reason: string
+) => {
+  try {
+    const result = await notifyUser(
+      counterpartyId,
+      `Settlement for "${auctionTitle}" was disputed`,
+      `The settlement for "${auctionTitle}" has been disputed by the other party (reason: ${reason}). Our team will review it. Details: ${getAuctionDeepLink(auctionId)}`
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send settlement dispute notification to ${counterpartyId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell a bidder an administrator voided one of their bids
+ */
+export const notifyBidVoided = async (
+  bidderId: string,
+  auctionId: string,
+  auctionTitle: string,
+  amount: number,
+  reason: string
+) => {
+  try {
+    const result = await notifyUser(
+      bidderId,
+      `Your bid on "${auctionTitle}" was voided`,
+      `Your bid of ₹${amount.toLocaleString()} on "${auctionTitle}" has been voided by our team (reason: ${reason}). It no longer counts in the auction. Details: ${getAuctionDeepLink(auctionId)}`
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send bid voided notification to ${bidderId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Offer a runner-up bidder the lot at their own best bid
+ */
+export const notifySecondChanceOffer = async (
+  bidderId: string,
+  auctionId: string,
+  auctionTitle: string,
+  amount: number,
+  expiresAt: Date
+) => {
+  try {
+    const expires = expiresAt.toLocaleString("en-PK", {
+      timeZone: "Asia/Karachi",
+    });
+    const result = await notifyUser(
+      bidderId,
+      `Second chance to win "${auctionTitle}"`,
+      `The winning bidder for "${auctionTitle}" did not complete the purchase. You can now buy the lot at your bid of ₹${amount.toLocaleString()}. This offer expires at ${expires}. Accept or decline it in the app: ${getAuctionDeepLink(auctionId)}`
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send second-chance offer to ${bidderId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell a winner who disputed or did not confirm the sale that the seller
+ * offered the lot to the next bidder
+ */
+export const notifySecondChanceWinnerReplaced = async (
+  winnerId: string,
+  auctionId: string,
+  auctionTitle: string,
+  disputed: boolean
+) => {
+  try {
+    const result = await notifyUser(
+      winnerId,
+      `"${auctionTitle}" was offered to another bidder`,
+      `${disputed ? "The sale was disputed" : "You did not confirm the sale in time"}, so the seller of "${auctionTitle}" has offered the lot to the next bidder. If they accept, you will no longer be the winner. Details: ${getAuctionDeepLink(auctionId)}`
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send second-chance notice to winner ${winnerId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell the seller a second-chance offer was declined or expired, so they
+ * can offer the lot to the next bidder
+ */
+export const notifySecondChanceClosed = async (
+  sellerId: string,
+  auctionId: string,
+  auctionTitle: string,
+  status: "declined" | "expired"
+) => {
+  try {
+    const result = await notifyUser(
+      sellerId,
+      `Second-chance offer for "${auctionTitle}" ${status}`,
+      `Your second-chance offer for "${auctionTitle}" was ${status === "declined" ? "declined by the bidder" : "not accepted in time"}. You can offer the lot to the next bidder: ${getAuctionDeepLink(auctionId)}`
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send second-chance update to ${sellerId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell a seller a buyer ordered from one of their listings
+ */
+export const notifyOrderPlaced = async (
+  sellerId: string,
+  productTitle: string,
+  quantity: number,
+  unit: string,
+  totalPrice: number
+) => {
+  try {
+    const result = await notifyUser(
+      sellerId,
+      `New order for "${productTitle}"`,
+      `A buyer has ordered ${quantity} ${unit} of "${productTitle}" for ₹${totalPrice.toLocaleString()}. The quantity is reserved until you accept or reject the order in the app.`
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send new order notification to ${sellerId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+/**
+ * Tell the other party an order was accepted, rejected, cancelled or
+ * completed
+ */
+export const notifyOrderStatusChanged = async (
+  userId: string,
+  productTitle: string,
+  status: string,
+  reason: string | null
+) => {
+  try {
+    const readableStatus = status.toLowerCase();
+    const result = await notifyUser(
+      userId,
+      `Order for "${productTitle}" ${readableStatus}`,
+      `The order for "${productTitle}" has been ${readableStatus}${reason ? ` (reason: ${reason})` : ""}. Details are in the app.`
+    );
+    return { success: true, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send order update to ${userId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
+// Minimum gap between outbid alerts to the same user in the same room
+const DEFAULT_OUTBID_THROTTLE_MINUTES = 5;
+
+const getOutbidThrottleMs = (): number => {
+  const minutes = parseInt(
+    process.env.AUCTION_OUTBID_THROTTLE_MINUTES || "",
+    10
+  );
+  return (
+    (Number.isInteger(minutes) && minutes >= 0
+      ? minutes
+      : DEFAULT_OUTBID_THROTTLE_MINUTES) *
+    60 *
+    1000
+  );
+};
+
+/**
+ * Tell a bidder they no longer hold the best bid. Alerts are throttled
+ * per user per room: the send is claimed on the participant row, so a
+ * bidding war produces at most one alert per throttle window.
+ */
+export const notifyOutbid = async (
+  auctionId: string,
+  userId: string,
+  newAmount: number
+) => {
+  try {
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - getOutbidThrottleMs());
+    const claimed = await prisma.auctionParticipant.updateMany({
+      where: {
+        auctionRoomId: auctionId,
+        userId,
+        OR: [
+          { lastOutbidNotifiedAt: null },
+          { lastOutbidNotifiedAt: { lte: cutoff } },
+        ],
+      },
+      data: { lastOutbidNotifiedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      devLog(`Outbid alert to ${userId} for ${auctionId} throttled`);
+      return { success: true, throttled: true };
+    }
+
+    const auction = await prisma.auctionRoom.findUnique({
+      where: { id: auctionId },
+      select: {
+        isReverse: true,
+        lotSize: true,
+        product: { select: { title: true } },
+      },
+    });
+    if (!auction) {
+      return { success: false, error: "Auction not found" };
+    }
+
+    const title = auction.product.title;
+    const link = getAuctionDeepLink(auctionId);
+    // In multi-lot rooms newAmount is the price per unit needed to win
+    const message = auction.lotSize
+      ? `Your bid for "${title}" no longer wins any quantity. Bid at least ₹${newAmount.toLocaleString()} per unit to get back in: ${link}`
+      : auction.isReverse
+        ? `A lower offer of ₹${newAmount.toLocaleString()} has beaten yours for "${title}". Revise your offer: ${link}`
+        : `You have been outbid on "${title}". The highest bid is now ₹${newAmount.toLocaleString()}. Bid again: ${link}`;
+
+    const result = await notifyUser(
+      userId,
+      auction.isReverse
+        ? `Your offer for "${title}" is no longer the lowest`
+        : `You have been outbid on "${title}"`,
+      message
+    );
+
+    return { success: true, throttled: false, result };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send outbid notification to ${userId}: ${errorMessage}`,
+      "error"
+    );
+    return { success: false, error: errorMessage };
+  }
+};
+
 // =============================================================================
 // AUCTION PROCESSING HELPERS
 // =============================================================================
@@ -345,9 +1059,9 @@ const getEndedAuctionsForNotification = async () => {
       winnerId: {
         not: null, // There is a winner
       },
-      status: {
-        not: "winner_notified", // Winner hasn't been notified yet
-      },
+      // Closed, winner not notified yet. Rooms still being closed are
+      // skipped: the close pipeline notifies the winner itself.
+      status: "ended",
     },
     include: {
       product: {
@@ -372,19 +1086,44 @@ const processSingleAuctionWinner = async (auction: any) => {
       };
     }
 
+    // Multi-lot rooms notify each winner through their settlement
+    if (auction.lotSize) {
+      const lotResult = await notifyLotWinners(
+        auction.id,
+        auction.product.title
+      );
+      if (!lotResult.success) {
+        return {
+          auctionId: auction.id,
+          status: "failed",
+          error: lotResult.error,
+        };
+      }
+
+      await prisma.auctionRoom.update({
+        where: { id: auction.id },
+        data: { status: "winner_notified" },
+      });
+      return {
+        auctionId: auction.id,
+        status: "success",
+        notified: lotResult.notified,
+      };
+    }
+
     // Send winner notification
     const notificationResult = await notifyAuctionWinner(
       auction.id,
       auction.winnerId,
       auction.product.title,
-      auction.currentHighestBid || 0
+      auction.finalPrice ?? auction.currentHighestBid ?? 0
     );
 
     if (notificationResult.success) {
       // Mark auction as winner notified
       await prisma.auctionRoom.update({
         where: { id: auction.id },
-        data: { status: "winner_notified" },
+        data: { status: "winner_notified", winnerNotifiedAt: new Date() },
       });
 
       return {
@@ -494,6 +1233,127 @@ export const processAuctionWinnerNotifications = async () => {
   }
 };
 
+// =============================================================================
+// AUCTION ENDING REMINDERS
+// =============================================================================
+
+// Minutes before endTime at which watchers are reminded
+const DEFAULT_REMINDER_OFFSETS_MINUTES = [60, 10];
+
+/**
+ * Reminder offsets from AUCTION_REMINDER_OFFSETS_MINUTES (e.g. "60,10"),
+ * largest first. Invalid entries are ignored.
+ */
+const getReminderOffsets = (): number[] => {
+  const configured = (process.env.AUCTION_REMINDER_OFFSETS_MINUTES || "")
+    .split(",")
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((value) => Number.isInteger(value) && value > 0);
+
+  const offsets = configured.length
+    ? configured
+    : DEFAULT_REMINDER_OFFSETS_MINUTES;
+  return [...new Set(offsets)].sort((a, b) => b - a);
+};
+
+const formatOffset = (minutes: number): string => {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
+
+/**
+ * Remind watchers that an auction is about to end.
+ *
+ * Each watcher gets at most one reminder per offset. A reminder is claimed
+ * in auction_reminders before it is sent, so overlapping runs cannot send
+ * it twice. When several offsets are already due (the user started
+ * watching late, or a run was missed) only the closest one is sent and the
+ * larger ones are recorded as passed.
+ */
+export const sendAuctionEndingReminders = async () => {
+  try {
+    const offsets = getReminderOffsets();
+    const auctions = await AuctionService.getAuctionsEndingSoon(
+      offsets[0] / 60
+    );
+
+    let sentCount = 0;
+    for (const auction of auctions) {
+      const minutesLeft = (auction.endTime.getTime() - Date.now()) / 60000;
+      const dueOffsets = offsets.filter((offset) => minutesLeft <= offset);
+      if (dueOffsets.length === 0) continue;
+
+      const [watchers, sent] = await Promise.all([
+        prisma.auctionWatch.findMany({
+          where: { auctionRoomId: auction.id },
+          select: { userId: true },
+        }),
+        prisma.auctionReminder.findMany({
+          where: {
+            auctionRoomId: auction.id,
+            offsetMinutes: { in: dueOffsets },
+          },
+          select: { userId: true, offsetMinutes: true },
+        }),
+      ]);
+
+      const sentKeys = new Set(
+        sent.map((reminder) => `${reminder.userId}:${reminder.offsetMinutes}`)
+      );
+
+      for (const { userId } of watchers) {
+        const pending = dueOffsets.filter(
+          (offset) => !sentKeys.has(`${userId}:${offset}`)
+        );
+        if (pending.length === 0) continue;
+
+        const closest = pending[pending.length - 1];
+        const claimed = await prisma.auctionReminder.createMany({
+          data: [{ auctionRoomId: auction.id, userId, offsetMinutes: closest }],
+          skipDuplicates: true,
+        });
+        if (claimed.count === 0) continue;
+
+        if (pending.length > 1) {
+          await prisma.auctionReminder.createMany({
+            data: pending.slice(0, -1).map((offsetMinutes) => ({
+              auctionRoomId: auction.id,
+              userId,
+              offsetMinutes,
+            })),
+            skipDuplicates: true,
+          });
+        }
+
+        const title = auction.product.title;
+        const endsAt = auction.endTime.toLocaleString("en-PK", {
+          timeZone: "Asia/Karachi",
+        });
+        await notifyUser(
+          userId,
+          `⏰ Auction for "${title}" ends in ${formatOffset(closest)}`,
+          `The auction for "${title}" on your watchlist closes at ${endsAt}. Place your bid before it ends.`
+        );
+        sentCount++;
+      }
+    }
+
+    devLog(`Sent ${sentCount} auction ending reminders`);
+    return { auctionsChecked: auctions.length, remindersSent: sentCount };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    devLog(
+      `❌ Failed to send auction ending reminders: ${errorMessage}`,
+      "error"
+    );
+    throw new Error(`Failed to send auction ending reminders: ${errorMessage}`);
+  }
+};
+
 // =============================================================================
 // REFACTORED ARCHITECTURE SUMMARY:
 //
@@ -514,6 +1374,7 @@ export const processAuctionWinnerNotifications = async () => {
 // - sendSMSNotification: SMS notification logic
 // - sendAdditionalNotifications: Orchestrates optional notifications
 // - notifyAuctionWinner: Main notification orchestrator
+// - notifyLotWinners: Notifies each winner of a multi-lot auction
 // - getEndedAuctionsForNotification: Database query for auctions
 // - processSingleAuctionWinner: Single auction processing
 // - processAuctionWinnerNotifications: Main processing orchestrator
@@ -0,0 +1,378 @@
+import { AuctionBid } from "@prisma/client";
+import prisma from "../prisma";
+import {
+  auctionRealtime,
+  parseRealtimeBids,
+  RealtimeBid,
+} from "../modules/auctions/auctionRealtime";
+import { AuctionService } from "../modules/auctions/auctionService";
+
+/**
+ * @fileoverview Reconciliation Jobs - Compares Firebase RTDB with Postgres
+ *
+ * Postgres (`AuctionBid` rows and `AuctionRoom` counters) is the source of
+ * truth and RTDB is a read model, but clients and failed mirrors can make
+ * the two drift. This module reports, per room:
+ * - Malformed RTDB bid entries
+ * - Bids present on only one side, and bids whose amounts differ
+ * - Retracted or voided bids still shown in RTDB
+ * - Bids placed after the room's end time
+ * - Room counters that disagree with the bid rows
+ *
+ * Repair mode never trusts RTDB: bids found only there skipped the API's
+ * validation, so they are deleted from RTDB rather than imported. It
+ * recounts live rooms from their active bids and then rewrites the RTDB
+ * room from Postgres. Ended rooms are never re-settled here; their
+ * issues are reported for an admin to review.
+ *
+ * @author Aarath Backend Team
+ * @version 1.0.0
+ */
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type ReconciliationIssueType =
+  | "malformed_rtdb_bid"
+  | "missing_in_postgres"
+  | "missing_in_rtdb"
+  | "amount_mismatch"
+  | "inactive_bid_in_rtdb"
+  | "bid_after_end"
+  | "total_bids_mismatch"
+  | "highest_bid_mismatch"
+  | "rtdb_counter_mismatch";
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  bidId?: string;
+  expected?: unknown;
+  actual?: unknown;
+  message: string;
+  repaired: boolean;
+}
+
+export interface AuctionReconciliationReport {
+  auctionId: string;
+  status: string;
+  checkedAt: Date;
+  rtdbBidCount: number;
+  postgresBidCount: number;
+  repairRequested: boolean;
+  issues: ReconciliationIssue[];
+}
+
+// Statuses whose bids and counters may still be repaired in Postgres
+const LIVE_STATUSES = ["scheduled", "active"];
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Log messages only in development mode
+ */
+const devLog = (message: string, type: "log" | "error" = "log") => {
+  if (process.env.NODE_ENV === "development") {
+    if (type === "error") {
+      // eslint-disable-next-line no-console
+      console.error(message);
+    } else {
+      // eslint-disable-next-line no-console
+      console.log(message);
+    }
+  }
+};
+
+/**
+ * Best bid by the room's direction; on equal amounts the earlier bid wins
+ */
+const findBestBid = (auction: any, bids: AuctionBid[]) =>
+  bids.reduce<AuctionBid | undefined>((best, bid) => {
+    if (!best || AuctionService.isBetterBid(auction, bid.amount, best.amount)) {
+      return bid;
+    }
+    if (bid.amount === best.amount && bid.timestamp < best.timestamp) {
+      return bid;
+    }
+    return best;
+  }, undefined);
+
+const toRealtimeBid = (bid: AuctionBid): RealtimeBid => ({
+  id: bid.id,
+  amount: bid.amount,
+  bidderId: bid.bidderId,
+  userName: bid.bidderName,
+  timestamp: bid.timestamp,
+  quantity: bid.quantity,
+});
+
+// =============================================================================
+// RECONCILIATION JOBS - MAIN EXPORT
+// =============================================================================
+
+export const reconciliationJobs = {
+  /**
+   * Compare one room's RTDB node with its Postgres rows, optionally
+   * repairing what can be repaired. Returns null for unknown rooms.
+   */
+  async reconcileAuction(
+    auctionId: string,
+    repair = false
+  ): Promise<AuctionReconciliationReport | null> {
+    const auction = await prisma.auctionRoom.findUnique({
+      where: { id: auctionId },
+      include: { bids: { orderBy: { timestamp: "asc" } } },
+    });
+
+    if (!auction) {
+      return null;
+    }
+
+    const issues: ReconciliationIssue[] = [];
+    const isLive = LIVE_STATUSES.includes(auction.status);
+    const room = await auctionRealtime.getRoom(auctionId);
+    const { bids: rtdbBids, malformed } = parseRealtimeBids(room?.bids);
+    const rtdbById = new Map(rtdbBids.map((bid) => [bid.id, bid]));
+    const dbById = new Map(auction.bids.map((bid) => [bid.id, bid]));
+    // Retracted and voided bids stay in Postgres but count nowhere
+    const activeBids = auction.bids.filter((bid) => bid.isActive);
+
+    // RTDB entries repair deletes: anything Postgres does not hold as an
+    // active bid
+    const toRemove: string[] = [];
+
+    for (const entry of malformed) {
+      toRemove.push(entry.id);
+      issues.push({
+        type: "malformed_rtdb_bid",
+        bidId: entry.id,
+        message: entry.reason,
+        repaired: repair,
+      });
+    }
+
+    for (const bid of rtdbBids) {
+      const dbBid = dbById.get(bid.id);
+      if (!dbBid) {
+        // Never placed through the API, so never validated
+        toRemove.push(bid.id);
+        issues.push({
+          type: "missing_in_postgres",
+          bidId: bid.id,
+          actual: bid.amount,
+          message: "Bid exists in RTDB but not in Postgres",
+          repaired: repair,
+        });
+      } else if (!dbBid.isActive) {
+        toRemove.push(bid.id);
+        issues.push({
+          type: "inactive_bid_in_rtdb",
+          bidId: bid.id,
+          message: "Retracted or voided bid is still in RTDB",
+          repaired: repair,
+        });
+      } else if (dbBid.amount !== bid.amount) {
+        issues.push({
+          type: "amount_mismatch",
+          bidId: bid.id,
+          expected: dbBid.amount,
+          actual: bid.amount,
+          message: "RTDB amount differs from Postgres",
+          repaired: repair,
+        });
+      }
+
+      if (bid.timestamp > auction.endTime) {
+        issues.push({
+          type: "bid_after_end",
+          bidId: bid.id,
+          expected: auction.endTime,
+          actual: bid.timestamp,
+          message: "RTDB bid is timestamped after the room's end time",
+          repaired: false,
+        });
+      }
+    }
+
+    // Open tenders never mirror bids to RTDB, so absence is expected, and
+    // the in-memory transports drop rooms once they close
+    const sealedOpen = AuctionService.isSealedBidOpen(auction);
+    const dropped = !room && !isLive;
+    for (const bid of activeBids) {
+      if (!sealedOpen && !dropped && !rtdbById.has(bid.id)) {
+        issues.push({
+          type: "missing_in_rtdb",
+          bidId: bid.id,
+          expected: bid.amount,
+          message: "Bid exists in Postgres but not in RTDB",
+          repaired: repair,
+        });
+      }
+      if (bid.timestamp > auction.endTime) {
+        issues.push({
+          type: "bid_after_end",
+          bidId: bid.id,
+          expected: auction.endTime,
+          actual: bid.timestamp,
+          message: "Postgres bid is timestamped after the room's end time",
+          repaired: false,
+        });
+      }
+    }
+
+    let dbBids = activeBids;
+    let current = auction;
+
+    if (repair && isLive) {
+      const result = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+
+        const bids = await tx.auctionBid.findMany({
+          where: { auctionRoomId: auctionId, isActive: true },
+          orderBy: { timestamp: "asc" },
+        });
+        const locked = await tx.auctionRoom.findUniqueOrThrow({
+          where: { id: auctionId },
+        });
+        const best = findBestBid(locked, bids);
+        const updated = await tx.auctionRoom.update({
+          where: { id: auctionId },
+          data: {
+            totalBids: bids.length,
+            currentHighestBid: best?.amount ?? null,
+            currentHighestBidderId: best?.bidderId ?? null,
+          },
+        });
+
+        return { bids, auction: updated };
+      });
+
+      dbBids = result.bids;
+      current = { ...result.auction, bids: result.bids };
+    }
+
+    // Room counters as they were before any repair
+    const best = findBestBid(auction, activeBids);
+    if (auction.totalBids !== activeBids.length) {
+      issues.push({
+        type: "total_bids_mismatch",
+        expected: activeBids.length,
+        actual: auction.totalBids,
+        message:
+          "AuctionRoom.totalBids does not match the active AuctionBid rows",
+        repaired: repair && isLive,
+      });
+    }
+    if (best && auction.currentHighestBid !== best.amount) {
+      issues.push({
+        type: "highest_bid_mismatch",
+        expected: best.amount,
+        actual: auction.currentHighestBid,
+        message: "AuctionRoom.currentHighestBid does not match the best bid",
+        repaired: repair && isLive,
+      });
+    }
+
+    if (room && !sealedOpen) {
+      const rtdbTotal = room.totalBids ?? 0;
+      const rtdbHighest = room.currentHighestBid ?? null;
+      if (
+        rtdbTotal !== current.totalBids ||
+        rtdbHighest !== current.currentHighestBid
+      ) {
+        issues.push({
+          type: "rtdb_counter_mismatch",
+          expected: {
+            totalBids: current.totalBids,
+            currentHighestBid: current.currentHighestBid,
+          },
+          actual: { totalBids: rtdbTotal, currentHighestBid: rtdbHighest },
+          message: "RTDB room counters differ from Postgres",
+          repaired: repair,
+        });
+      }
+    }
+
+    const needsRtdbSync = issues.some((issue) =>
+      ["missing_in_rtdb", "amount_mismatch", "rtdb_counter_mismatch"].includes(
+        issue.type
+      )
+    );
+    if (repair) {
+      // Open tenders only ever publish their bid count
+      const counters = sealedOpen
+        ? {
+            currentHighestBid: null,
+            currentHighestBidderId: null,
+            totalBids: current.totalBids,
+          }
+        : current;
+      for (const bidId of toRemove) {
+        await auctionRealtime.removeBid(auctionId, bidId, counters);
+      }
+    }
+    if (repair && needsRtdbSync && !sealedOpen) {
+      await auctionRealtime.syncRoomState(
+        auctionId,
+        dbBids.map(toRealtimeBid),
+        current
+      );
+    }
+
+    return {
+      auctionId,
+      status: auction.status,
+      checkedAt: new Date(),
+      rtdbBidCount: rtdbBids.length + malformed.length,
+      postgresBidCount: activeBids.length,
+      repairRequested: repair,
+      issues,
+    };
+  },
+
+  /**
+   * Reconcile rooms that were live within the last `hours` hours.
+   * Only rooms with at least one issue are returned.
+   */
+  async reconcileRecentAuctions(hours = 24, repair = false) {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const rooms = await prisma.auctionRoom.findMany({
+      where: {
+        startTime: { lte: new Date() },
+        endTime: { gte: since },
+      },
+      select: { id: true },
+    });
+
+    const reports: AuctionReconciliationReport[] = [];
+    let failed = 0;
+
+    for (const { id } of rooms) {
+      try {
+        const report = await this.reconcileAuction(id, repair);
+        if (report && report.issues.length > 0) {
+          reports.push(report);
+        }
+      } catch (error) {
+        failed++;
+        devLog(`Error reconciling auction ${id}: ${error}`, "error");
+      }
+    }
+
+    if (reports.length > 0) {
+      devLog(
+        `Reconciliation found issues in ${reports.length} of ${rooms.length} auctions`,
+        "error"
+      );
+    }
+
+    return {
+      checkedRooms: rooms.length,
+      roomsWithIssues: reports.length,
+      failedRooms: failed,
+      reports,
+    };
+  },
+};
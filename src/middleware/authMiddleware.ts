@@ -28,3 +28,22 @@ export async function verifyFirebaseToken(
     return res.status(401).json({ error: "Invalid or expired token" });
   }
 }
+
+/**
+ * Check whether the verified token carries the `admin` custom claim.
+ * The claim is granted with the Firebase Admin SDK (setCustomUserClaims).
+ */
+export function isAdminRequest(req: Request): boolean {
+  return (req as any).user?.admin === true;
+}
+
+/**
+ * Middleware that only lets admins through.  Must run after
+ * `verifyFirebaseToken`; other users receive a 403 response.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!isAdminRequest(req)) {
+    return res.status(403).json({ error: "Admin access required" });
+  }
+  next();
+}
@@ -1,21 +1,90 @@
 import { Request, Response } from "express";
-import { AuctionService, AuctionFilters } from "./auctionService";
+import {
+  AuctionService,
+  AuctionFilters,
+  AuctionAnalyticsFilters,
+  ANALYTICS_GROUPS,
+} from "./auctionService";
+import { parseAuctionScheduleInput } from "./auctionScheduleInput";
+import { isAdminRequest } from "../../middleware/authMiddleware";
+import {
+  EXPORT_FORMATS,
+  renderAuctionCertificate,
+  renderAuctionCsv,
+} from "./auctionExport";
 
-// Get all auctions with comprehensive relational data
+interface AuthenticatedRequest extends Request {
+  user: { uid: string };
+}
+
+const AUCTION_SORT_FIELDS = [
+  "createdAt",
+  "endTime",
+  "currentHighestBid",
+  "totalBids",
+];
+
+// Search auctions with filters and cursor pagination
 export async function getAllAuctions(req: Request, res: Response) {
   try {
     const {
       status,
+      category,
+      city,
+      state,
+      sellerId,
+      hasReserve,
+      cursor,
       limit = 20,
-      offset = 0,
       sortBy = "createdAt",
       sortOrder = "desc",
     } = req.query;
 
+    const parsedLimit = parseInt(limit as string);
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
+      return res.status(400).json({
+        success: false,
+        error: "limit must be between 1 and 100",
+      });
+    }
+
+    if (
+      !AUCTION_SORT_FIELDS.includes(String(sortBy)) ||
+      (sortOrder !== "asc" && sortOrder !== "desc")
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `sortBy must be one of ${AUCTION_SORT_FIELDS.join(", ")} and sortOrder asc or desc`,
+      });
+    }
+
+    // Optional numeric filters must be positive numbers when present
+    const numbers: Record<string, number | undefined> = {};
+    for (const field of ["minPrice", "maxPrice", "endingWithinHours"]) {
+      const raw = req.query[field];
+      if (raw === undefined) continue;
+      const value = parseFloat(raw as string);
+      if (isNaN(value) || value < 0) {
+        return res.status(400).json({
+          success: false,
+          error: `${field} must be a non-negative number`,
+        });
+      }
+      numbers[field] = value;
+    }
+
     const filters: AuctionFilters = {
-      status: status as string,
-      limit: parseInt(limit as string),
-      offset: parseInt(offset as string),
+      status: status as string | undefined,
+      category: category as string | undefined,
+      city: city as string | undefined,
+      state: state as string | undefined,
+      sellerId: sellerId as string | undefined,
+      minPrice: numbers.minPrice,
+      maxPrice: numbers.maxPrice,
+      endingWithinHours: numbers.endingWithinHours,
+      hasReserve: hasReserve === undefined ? undefined : hasReserve === "true",
+      cursor: cursor as string | undefined,
+      limit: parsedLimit,
       sortBy: sortBy as AuctionFilters["sortBy"],
       sortOrder: sortOrder as AuctionFilters["sortOrder"],
     };
@@ -35,6 +104,67 @@ export async function getAllAuctions(req: Request, res: Response) {
   }
 }
 
+// Analytics of closed auctions: the seller's own, or the whole market
+// (optionally one seller's) for admins
+export async function getAuctionAnalytics(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { category, city, from, to, groupBy, sellerId } = req.query;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (groupBy !== undefined && !ANALYTICS_GROUPS.includes(String(groupBy))) {
+      return res.status(400).json({
+        success: false,
+        error: `groupBy must be one of: ${ANALYTICS_GROUPS.join(", ")}`,
+      });
+    }
+
+    const fromDate = from !== undefined ? new Date(String(from)) : undefined;
+    const toDate = to !== undefined ? new Date(String(to)) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "from and to must be valid dates",
+      });
+    }
+
+    if (fromDate && toDate && fromDate > toDate) {
+      return res.status(400).json({
+        success: false,
+        error: "from must be before to",
+      });
+    }
+
+    const filters: AuctionAnalyticsFilters = {
+      sellerId: isAdminRequest(req) ? (sellerId as string | undefined) : userId,
+      category: category as string | undefined,
+      city: city as string | undefined,
+      from: fromDate,
+      to: toDate,
+      groupBy: groupBy as AuctionAnalyticsFilters["groupBy"],
+    };
+
+    const analytics = await AuctionService.getAuctionAnalytics(filters);
+
+    return res.status(200).json({ success: true, data: analytics });
+  } catch (error) {
+    console.error("Error fetching auction analytics:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch auction analytics",
+    });
+  }
+}
+
 // Get single auction by ID with full details
 export async function getAuctionById(req: Request, res: Response) {
   try {
@@ -68,3 +198,822 @@ export async function getAuctionById(req: Request, res: Response) {
     });
   }
 }
+
+// Download the record of a closed auction as CSV or a PDF certificate
+export async function exportAuctionRecord(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+    const format = String(req.query.format ?? "csv").toLowerCase();
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    const result = await AuctionService.getAuctionRecord(
+      auctionId,
+      userId,
+      isAdminRequest(req)
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    const filename = `auction-${result.auction.product.serialNumber}`;
+    if (format === "pdf") {
+      const pdf = await renderAuctionCertificate(result.auction);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}-certificate.pdf"`
+      );
+      return res.status(200).send(pdf);
+    }
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${filename}.csv"`
+    );
+    return res.status(200).send(renderAuctionCsv(result.auction));
+  } catch (error) {
+    console.error("Error exporting auction record:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to export auction record",
+    });
+  }
+}
+
+// Place a bid on an auction room (server-validated)
+export async function placeBid(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+    const amount = Number(req.body?.amount);
+    const quantity =
+      req.body?.quantity !== undefined ? Number(req.body.quantity) : undefined;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (!auctionId) {
+      return res.status(400).json({
+        success: false,
+        error: "Auction ID is required",
+      });
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: "A positive bid amount is required",
+      });
+    }
+
+    const result = await AuctionService.placeBid(
+      auctionId,
+      userId,
+      amount,
+      quantity
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: result.message,
+      data: {
+        bid: result.bid,
+        autoBids: result.autoBids,
+        auction: result.auction,
+        extended: result.extended,
+      },
+    });
+  } catch (error) {
+    console.error("Error placing bid:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to place bid",
+    });
+  }
+}
+
+// Retract one of the caller's own bids within the grace window
+export async function retractBid(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId, bidId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (!auctionId || !bidId) {
+      return res.status(400).json({
+        success: false,
+        error: "Auction ID and bid ID are required",
+      });
+    }
+
+    const result = await AuctionService.retractBid(auctionId, bidId, userId);
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: result.message,
+      data: {
+        bid: result.bid,
+        auction: result.auction,
+      },
+    });
+  } catch (error) {
+    console.error("Error retracting bid:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to retract bid",
+    });
+  }
+}
+
+// Accept the current clock price of a Dutch auction
+export async function acceptDutchPrice(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (!auctionId) {
+      return res.status(400).json({
+        success: false,
+        error: "Auction ID is required",
+      });
+    }
+
+    const result = await AuctionService.acceptDutchPrice(auctionId, userId);
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: result.message,
+      data: {
+        bid: result.bid,
+        auction: result.auction,
+      },
+    });
+  } catch (error) {
+    console.error("Error accepting Dutch auction price:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to accept auction price",
+    });
+  }
+}
+
+// Register or update a hidden maximum (proxy) bid
+export async function setProxyBid(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+    const maxAmount = Number(req.body?.maxAmount);
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (!Number.isFinite(maxAmount) || maxAmount <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: "A positive maximum amount is required",
+      });
+    }
+
+    const result = await AuctionService.setProxyBid(
+      auctionId,
+      userId,
+      maxAmount
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        proxyBid: result.proxyBid,
+        autoBids: result.autoBids,
+        auction: result.auction,
+        buyNow: result.buyNow,
+      },
+    });
+  } catch (error) {
+    console.error("Error setting proxy bid:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to set proxy bid",
+    });
+  }
+}
+
+// Get the caller's own proxy bid for an auction
+export async function getMyProxyBid(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    const proxyBid = await AuctionService.getProxyBid(auctionId, userId);
+
+    if (!proxyBid) {
+      return res.status(404).json({
+        success: false,
+        error: "No proxy bid found for this auction",
+      });
+    }
+
+    return res.status(200).json({ success: true, data: proxyBid });
+  } catch (error) {
+    console.error("Error fetching proxy bid:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch proxy bid",
+    });
+  }
+}
+
+// Stop auto-bidding for the caller
+export async function cancelProxyBid(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    const cancelled = await AuctionService.cancelProxyBid(auctionId, userId);
+
+    if (!cancelled) {
+      return res.status(404).json({
+        success: false,
+        error: "No active proxy bid found for this auction",
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Proxy bid cancelled",
+    });
+  } catch (error) {
+    console.error("Error cancelling proxy bid:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to cancel proxy bid",
+    });
+  }
+}
+
+// Add an auction to the caller's watchlist
+export async function watchAuction(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const result = await AuctionService.watchAuction(auctionId, userId);
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { auctionId, watchedAt: result.watchedAt },
+      message: "Auction added to your watchlist",
+    });
+  } catch (error) {
+    console.error("Error watching auction:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to watch auction",
+    });
+  }
+}
+
+// Remove an auction from the caller's watchlist
+export async function unwatchAuction(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    const removed = await AuctionService.unwatchAuction(auctionId, userId);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: "Auction is not on your watchlist",
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Auction removed from your watchlist",
+    });
+  } catch (error) {
+    console.error("Error unwatching auction:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to unwatch auction",
+    });
+  }
+}
+
+// List the auctions the caller is watching
+export async function getWatchlist(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const watchlist = await AuctionService.getWatchedAuctions(userId);
+
+    return res.status(200).json({ success: true, data: watchlist });
+  } catch (error) {
+    console.error("Error fetching watchlist:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch watchlist",
+    });
+  }
+}
+
+// The room's bidder eligibility rules and whether the caller meets them
+export async function getBidderEligibility(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const eligibility = await AuctionService.getBidderEligibility(
+      auctionId,
+      userId
+    );
+
+    if (!eligibility) {
+      return res.status(404).json({
+        success: false,
+        error: "Auction not found",
+      });
+    }
+
+    return res.status(200).json({ success: true, data: eligibility });
+  } catch (error) {
+    console.error("Error checking bidder eligibility:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to check bidder eligibility",
+    });
+  }
+}
+
+// Post a buyer procurement requirement as a reverse auction
+export async function createProcurementAuction(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const {
+      commodity,
+      grade,
+      variety,
+      quantity,
+      unit,
+      deliveryCity,
+      deliveryState,
+      title,
+      description,
+    } = req.body || {};
+
+    if (!commodity || !quantity || !unit || !deliveryCity) {
+      return res.status(400).json({
+        success: false,
+        error: "Commodity, quantity, unit and delivery city are required",
+      });
+    }
+
+    const parsedQuantity = parseInt(quantity, 10);
+    if (isNaN(parsedQuantity) || parsedQuantity <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Quantity must be a positive whole number",
+      });
+    }
+
+    const parsed = parseAuctionScheduleInput(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    const result = await AuctionService.createProcurementAuction(
+      userId,
+      {
+        commodity,
+        grade,
+        variety,
+        quantity: parsedQuantity,
+        unit,
+        deliveryCity,
+        deliveryState,
+        title,
+        description,
+      },
+      parsed.input
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(201).json({ success: true, data: result.auction });
+  } catch (error) {
+    console.error("Error creating procurement auction:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to create procurement auction",
+    });
+  }
+}
+
+// Cancel an auction - owner before the first bid, admins at any time
+export async function cancelAuction(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+    const { reason, note } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (!auctionId) {
+      return res.status(400).json({
+        success: false,
+        error: "Auction ID is required",
+      });
+    }
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        error: "A cancellation reason is required",
+      });
+    }
+
+    const result = await AuctionService.cancelAuction(
+      auctionId,
+      userId,
+      isAdminRequest(req),
+      {
+        reason: String(reason).toLowerCase(),
+        note: note === undefined ? undefined : String(note),
+      }
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: "Auction cancelled",
+      data: result.auction,
+    });
+  } catch (error) {
+    console.error("Error cancelling auction:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to cancel auction",
+    });
+  }
+}
+
+// Get the settlements of a sold auction (all for seller or admin, own for
+// a winner). Multi-lot auctions have one settlement per winner.
+export async function getSettlements(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    const settlements = await AuctionService.getSettlements(
+      auctionId,
+      userId,
+      isAdminRequest(req)
+    );
+
+    if (!settlements) {
+      return res.status(404).json({
+        success: false,
+        error: "Settlement not found",
+      });
+    }
+
+    return res.status(200).json({ success: true, data: settlements });
+  } catch (error) {
+    console.error("Error fetching settlement:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch settlement",
+    });
+  }
+}
+
+// Confirm the settlement as seller or winner
+export async function confirmSettlement(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+    const { winnerId } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const result = await AuctionService.confirmSettlement(
+      auctionId,
+      userId,
+      winnerId ? String(winnerId) : undefined
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message:
+        result.settlement.status === "confirmed"
+          ? "Settlement confirmed by both parties"
+          : "Your confirmation was recorded",
+      data: result.settlement,
+    });
+  } catch (error) {
+    console.error("Error confirming settlement:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to confirm settlement",
+    });
+  }
+}
+
+// Dispute the settlement as seller or winner
+export async function disputeSettlement(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+    const { reason, winnerId } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const result = await AuctionService.disputeSettlement(
+      auctionId,
+      userId,
+      reason === undefined ? "" : String(reason),
+      winnerId ? String(winnerId) : undefined
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Settlement disputed",
+      data: result.settlement,
+    });
+  } catch (error) {
+    console.error("Error disputing settlement:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to dispute settlement",
+    });
+  }
+}
+
+// Seller offers a sold lot to the next best bidder after the winner backed out
+export async function createSecondChanceOffer(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+    const { expiresInHours } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const result = await AuctionService.createSecondChanceOffer(
+      auctionId,
+      userId,
+      expiresInHours === undefined ? undefined : Number(expiresInHours)
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: "Second-chance offer sent",
+      data: result.offer,
+    });
+  } catch (error) {
+    console.error("Error creating second-chance offer:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to create second-chance offer",
+    });
+  }
+}
+
+// List second-chance offers (all for the seller, own offers for bidders)
+export async function getSecondChanceOffers(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    const offers = await AuctionService.getSecondChanceOffers(
+      auctionId,
+      userId,
+      isAdminRequest(req)
+    );
+
+    if (!offers) {
+      return res.status(404).json({
+        success: false,
+        error: "Auction not found",
+      });
+    }
+
+    return res.status(200).json({ success: true, data: offers });
+  } catch (error) {
+    console.error("Error fetching second-chance offers:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch second-chance offers",
+    });
+  }
+}
+
+// Bidder accepts or declines their pending second-chance offer
+async function respondToSecondChanceOffer(
+  req: Request,
+  res: Response,
+  accept: boolean
+) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { auctionId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const result = await AuctionService.respondToSecondChanceOffer(
+      auctionId,
+      userId,
+      accept
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: accept
+        ? "Offer accepted. You are now the winner of this auction"
+        : "Offer declined",
+      data: result.offer,
+    });
+  } catch (error) {
+    console.error("Error responding to second-chance offer:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to respond to second-chance offer",
+    });
+  }
+}
+
+export async function acceptSecondChanceOffer(req: Request, res: Response) {
+  return respondToSecondChanceOffer(req, res, true);
+}
+
+export async function declineSecondChanceOffer(req: Request, res: Response) {
+  return respondToSecondChanceOffer(req, res, false);
+}
@@ -0,0 +1,245 @@
+import { createHash } from "crypto";
+import PDFDocument from "pdfkit";
+
+/**
+ * Downloadable records of a closed auction for disputes and accounting.
+ *
+ * Both formats are rendered from AuctionService.getAuctionById:
+ * - CSV: the outcome, the full bid history and the participants
+ * - PDF "auction certificate": serial number, timeline, outcome and bids
+ *
+ * Both carry a SHA-256 hash over the bid list. Each bid becomes the line
+ * `id|timestamp (ISO)|bidderId|amount|quantity|bidType`, oldest bid
+ * first, joined with "\n". It is computed from the database at export
+ * time, so it only shows whether two exports list the same bids; it
+ * does not prove the stored history was never changed.
+ */
+
+export const EXPORT_FORMATS = ["csv", "pdf"];
+
+const byTime = (bids: any[]) =>
+  [...bids].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+/**
+ * SHA-256 fingerprint of the bid list (see above)
+ */
+export const hashBidList = (bids: any[]): string =>
+  createHash("sha256")
+    .update(
+      byTime(bids)
+        .map((bid) =>
+          [
+            bid.id,
+            new Date(bid.timestamp).toISOString(),
+            bid.bidderId,
+            bid.amount,
+            bid.quantity ?? "",
+            bid.bidType,
+          ].join("|")
+        )
+        .join("\n")
+    )
+    .digest("hex");
+
+const csvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const raw = value instanceof Date ? value.toISOString() : String(value);
+  // Spreadsheets run text cells starting with these as formulas
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: unknown[]) => values.map(csvValue).join(",");
+
+const sellerName = (auction: any) => {
+  const user = auction.product.user;
+  return (
+    user?.businessName ||
+    user?.companyName ||
+    user?.personalName ||
+    user?.name ||
+    "Not provided"
+  );
+};
+
+const winnerNames = (auction: any) =>
+  auction.participants
+    .filter((participant: any) => participant.isWinner)
+    .map((participant: any) => participant.userName || participant.userId)
+    .join("; ");
+
+/**
+ * Render the auction, its bid history and participants as sectioned CSV
+ */
+export const renderAuctionCsv = (auction: any): string => {
+  const rows = [
+    csvRow(["Auction"]),
+    csvRow(["Serial number", auction.product.serialNumber]),
+    csvRow(["Auction ID", auction.id]),
+    csvRow(["Product", auction.product.title]),
+    csvRow(["Quantity", `${auction.product.quantity} ${auction.product.unit}`]),
+    csvRow(["Seller", sellerName(auction)]),
+    csvRow(["Auction type", auction.auctionType]),
+    csvRow(["Reverse", auction.isReverse]),
+    csvRow(["Lot size", auction.lotSize]),
+    csvRow(["Starting bid", auction.startingBid]),
+    csvRow(["Reserve price", auction.reservePrice]),
+    csvRow(["Start time", auction.startTime]),
+    csvRow(["Original end time", auction.originalEndTime ?? auction.endTime]),
+    csvRow(["End time", auction.endTime]),
+    csvRow(["Extensions", auction.extensionCount]),
+    csvRow(["Status", auction.status]),
+    csvRow(["Outcome", auction.outcome]),
+    csvRow(["Winners", winnerNames(auction)]),
+    csvRow(["Final price", auction.finalPrice]),
+    csvRow(["Bid list SHA-256", hashBidList(auction.bids)]),
+    "",
+    csvRow(["Bids"]),
+    csvRow([
+      "Bid ID",
+      "Timestamp",
+      "Bidder ID",
+      "Bidder",
+      "Amount",
+      "Quantity",
+      "Allocated quantity",
+      "Type",
+      "Winning",
+    ]),
+    ...byTime(auction.bids).map((bid) =>
+      csvRow([
+        bid.id,
+        bid.timestamp,
+        bid.bidderId,
+        bid.bidderName,
+        bid.amount,
+        bid.quantity,
+        bid.allocatedQuantity,
+        bid.bidType,
+        bid.isWinningBid,
+      ])
+    ),
+    "",
+    csvRow(["Participants"]),
+    csvRow([
+      "User ID",
+      "Name",
+      "First joined",
+      "Bids placed",
+      "Best bid",
+      "Winner",
+    ]),
+    ...auction.participants.map((participant: any) =>
+      csvRow([
+        participant.userId,
+        participant.userName,
+        participant.firstJoinedAt,
+        participant.totalBidsPlaced,
+        participant.highestBidAmount,
+        participant.isWinner,
+      ])
+    ),
+  ];
+
+  return rows.join("\n") + "\n";
+};
+
+/**
+ * Render the PDF auction certificate
+ */
+export const renderAuctionCertificate = (auction: any): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const line = (label: string, value: unknown) =>
+      doc
+        .font("Helvetica-Bold")
+        .text(`${label}: `, { continued: true })
+        .font("Helvetica")
+        .text(
+          value instanceof Date ? value.toISOString() : String(value ?? "-")
+        );
+
+    doc.font("Helvetica-Bold").fontSize(18).text("Auction Certificate", {
+      align: "center",
+    });
+    doc.moveDown();
+    doc.fontSize(10);
+
+    line("Serial number", auction.product.serialNumber);
+    line("Auction ID", auction.id);
+    line("Product", auction.product.title);
+    line("Quantity", `${auction.product.quantity} ${auction.product.unit}`);
+    line("Seller", sellerName(auction));
+    line(
+      "Format",
+      [
+        auction.auctionType,
+        auction.sealedPricing,
+        auction.isReverse && "reverse",
+        auction.lotSize && `lots of ${auction.lotSize}`,
+      ]
+        .filter(Boolean)
+        .join(", ")
+    );
+
+    doc.moveDown().font("Helvetica-Bold").fontSize(12).text("Timeline");
+    doc.fontSize(10);
+    line("Created", auction.createdAt);
+    line("Started", auction.startTime);
+    line("Scheduled end", auction.originalEndTime ?? auction.endTime);
+    line("Ended", auction.endTime);
+    line("Soft-close extensions", auction.extensionCount);
+    if (auction.cancelledAt) {
+      line("Cancelled", auction.cancelledAt);
+      line("Cancellation reason", auction.cancellationReason);
+    }
+
+    doc.moveDown().font("Helvetica-Bold").fontSize(12).text("Outcome");
+    doc.fontSize(10);
+    line("Status", auction.status);
+    line("Outcome", auction.outcome);
+    line("Starting bid", auction.startingBid);
+    line("Reserve met", auction.isReserveReached ? "yes" : "no");
+    line("Winners", winnerNames(auction) || "-");
+    line("Final price", auction.finalPrice);
+    line("Bids", auction.bids.length);
+    line("Participants", auction.participants.length);
+
+    doc.moveDown().font("Helvetica-Bold").fontSize(12).text("Bid history");
+    doc.font("Courier").fontSize(8);
+    for (const bid of byTime(auction.bids)) {
+      doc.text(
+        [
+          new Date(bid.timestamp).toISOString(),
+          bid.bidderName || bid.bidderId,
+          bid.amount,
+          bid.quantity ? `x${bid.quantity}` : "",
+          bid.bidType,
+          bid.isWinningBid ? "WINNING" : "",
+        ]
+          .filter((part) => part !== "")
+          .join("  ")
+      );
+    }
+
+    doc.moveDown().font("Helvetica-Bold").fontSize(12).text("Integrity");
+    doc.fontSize(10);
+    line("Bid list SHA-256", hashBidList(auction.bids));
+    line("Issued", new Date());
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .text(
+        "The hash covers every bid as id|timestamp|bidderId|amount|quantity|bidType, oldest first, one per line, as recorded when this document was issued. Matching hashes show two exports list the same bids."
+      );
+
+    doc.end();
+  });
@@ -0,0 +1,70 @@
+import { AuctionRealtimeGateway } from "./auctionRealtimeGateway";
+import { FirebaseRealtimeGateway } from "./firebaseRealtimeGateway";
+import { InMemoryRealtimeGateway } from "./inMemoryRealtimeGateway";
+import { WebSocketRealtimeGateway } from "./webSocketRealtimeGateway";
+
+export {
+  AuctionRealtimeGateway,
+  MalformedRealtimeBid,
+  RealtimeBid,
+  RealtimePresence,
+  RealtimeRoomCounters,
+  RealtimeRoomSettings,
+  parseRealtimeBids,
+} from "./auctionRealtimeGateway";
+
+/**
+ * Mirrors server-side auction state to connected clients through the
+ * configured realtime gateway. Postgres stays the source of truth; the
+ * gateway is only a read model for the app.
+ *
+ * AUCTION_REALTIME_TRANSPORT selects the gateway:
+ * - "firebase" (default): Firebase Realtime Database
+ * - "websocket": built-in WebSocket rooms
+ * - "memory": process memory only, for local runs without Firebase
+ */
+
+const createGateway = (): AuctionRealtimeGateway => {
+  switch (process.env.AUCTION_REALTIME_TRANSPORT) {
+    case "websocket":
+      return new WebSocketRealtimeGateway();
+    case "memory":
+      return new InMemoryRealtimeGateway();
+    default:
+      return new FirebaseRealtimeGateway();
+  }
+};
+
+let activeGateway: AuctionRealtimeGateway = createGateway();
+
+/**
+ * Swap the gateway at runtime, e.g. an InMemoryRealtimeGateway in tests
+ */
+export const setAuctionRealtimeGateway = (gateway: AuctionRealtimeGateway) => {
+  activeGateway = gateway;
+};
+
+export const getAuctionRealtimeGateway = () => activeGateway;
+
+/**
+ * Delegates every call to the active gateway, so callers keep working
+ * when the gateway is swapped
+ */
+export const auctionRealtime: AuctionRealtimeGateway = {
+  initRoom: (auctionId, room) => activeGateway.initRoom(auctionId, room),
+  updateRoomSettings: (auctionId, room) =>
+    activeGateway.updateRoomSettings(auctionId, room),
+  setRoomStatus: (auctionId, status, closed) =>
+    activeGateway.setRoomStatus(auctionId, status, closed),
+  publishBidCount: (auctionId, totalBids) =>
+    activeGateway.publishBidCount(auctionId, totalBids),
+  publishBid: (auctionId, bid, room) =>
+    activeGateway.publishBid(auctionId, bid, room),
+  syncRoomState: (auctionId, bids, room) =>
+    activeGateway.syncRoomState(auctionId, bids, room),
+  removeBid: (auctionId, bidId, room) =>
+    activeGateway.removeBid(auctionId, bidId, room),
+  publishPresence: (auctionId, presence) =>
+    activeGateway.publishPresence(auctionId, presence),
+  getRoom: (auctionId) => activeGateway.getRoom(auctionId),
+};
@@ -0,0 +1,206 @@
+/**
+ * Transport-neutral contract for pushing live auction state to clients.
+ * Postgres stays the source of truth; a gateway only maintains a read
+ * model of each room (settings, counters, bids and presence) and
+ * delivers changes to connected clients.
+ *
+ * Implementations:
+ * - FirebaseRealtimeGateway: Firebase Realtime Database (default)
+ * - WebSocketRealtimeGateway: built-in WebSocket rooms
+ * - InMemoryRealtimeGateway: process memory only, for local runs and tests
+ */
+
+export interface RealtimeBid {
+  id: string;
+  amount: number;
+  bidderId: string;
+  userName: string | null;
+  timestamp: Date;
+  // Requested quantity, multi-lot rooms only
+  quantity?: number | null;
+}
+
+export interface MalformedRealtimeBid {
+  id: string;
+  reason: string;
+}
+
+export interface RealtimeRoomSettings {
+  productId: string;
+  startingBid: number;
+  reservePrice: number | null;
+  minBidIncrement: number;
+  buyNowPrice: number | null;
+  startTime: Date;
+  endTime: Date;
+  status: string;
+  closed: boolean;
+  softCloseWindowMinutes: number;
+  softCloseExtensionMinutes: number;
+  maxExtensions: number;
+  extensionCount: number;
+  auctionType: string;
+  sealedPricing: string | null;
+  isReverse: boolean;
+  priceDropIntervalMinutes: number | null;
+  lotSize: number | null;
+}
+
+export interface RealtimeRoomCounters {
+  currentHighestBid: number | null;
+  currentHighestBidderId: string | null;
+  totalBids: number;
+}
+
+export interface RealtimePresence {
+  userId: string;
+  userName: string | null;
+  online: boolean;
+  lastSeenAt: Date;
+}
+
+export interface AuctionRealtimeGateway {
+  /**
+   * Create the room node for a newly scheduled auction
+   */
+  initRoom(auctionId: string, room: RealtimeRoomSettings): Promise<void>;
+
+  /**
+   * Push edited room settings without touching bids or counters
+   */
+  updateRoomSettings(
+    auctionId: string,
+    room: RealtimeRoomSettings
+  ): Promise<void>;
+
+  /**
+   * Update the room lifecycle flags clients use to open or lock bidding
+   */
+  setRoomStatus(
+    auctionId: string,
+    status: string,
+    closed: boolean
+  ): Promise<void>;
+
+  /**
+   * Bump the bid counter of an open tender without revealing the bid
+   */
+  publishBidCount(auctionId: string, totalBids: number): Promise<void>;
+
+  /**
+   * Write an accepted bid and the resulting room counters in one update
+   */
+  publishBid(
+    auctionId: string,
+    bid: RealtimeBid,
+    room: RealtimeRoomCounters & { endTime: Date; extensionCount: number }
+  ): Promise<void>;
+
+  /**
+   * Overwrite bids and counters with the authoritative Postgres values
+   */
+  syncRoomState(
+    auctionId: string,
+    bids: RealtimeBid[],
+    room: RealtimeRoomCounters
+  ): Promise<void>;
+
+  /**
+   * Drop a retracted or voided bid and push the recalculated counters
+   */
+  removeBid(
+    auctionId: string,
+    bidId: string,
+    room: RealtimeRoomCounters
+  ): Promise<void>;
+
+  /**
+   * Mark a user as present in (or gone from) a room
+   */
+  publishPresence(auctionId: string, presence: RealtimePresence): Promise<void>;
+
+  /**
+   * Read the whole room node in the RTDB layout (settings, counters,
+   * `bids` keyed by id and `presence` keyed by user), or null
+   */
+  getRoom(auctionId: string): Promise<any | null>;
+}
+
+export const serializeSettings = (room: RealtimeRoomSettings) => ({
+  productId: room.productId,
+  startingBid: room.startingBid,
+  reservePrice: room.reservePrice,
+  minBidIncrement: room.minBidIncrement,
+  buyNowPrice: room.buyNowPrice,
+  startTime: room.startTime.toISOString(),
+  endTime: room.endTime.toISOString(),
+  status: room.status,
+  closed: room.closed,
+  softCloseWindowMinutes: room.softCloseWindowMinutes,
+  softCloseExtensionMinutes: room.softCloseExtensionMinutes,
+  maxExtensions: room.maxExtensions,
+  extensionCount: room.extensionCount,
+  auctionType: room.auctionType,
+  sealedPricing: room.sealedPricing,
+  isReverse: room.isReverse,
+  priceDropIntervalMinutes: room.priceDropIntervalMinutes,
+  lotSize: room.lotSize,
+});
+
+export const serializeBid = (bid: RealtimeBid) => ({
+  amount: bid.amount,
+  bidderId: bid.bidderId,
+  userId: bid.bidderId,
+  userName: bid.userName ?? "",
+  timestamp: bid.timestamp.toISOString(),
+  ...(bid.quantity != null && { quantity: bid.quantity }),
+});
+
+export const serializePresence = (presence: RealtimePresence) => ({
+  userName: presence.userName ?? "",
+  online: presence.online,
+  lastSeenAt: presence.lastSeenAt.toISOString(),
+});
+
+/**
+ * Parse the raw `bids` node of a room. Entries without a positive
+ * amount, a bidder or a valid timestamp are reported as malformed
+ * instead of being patched with defaults.
+ */
+export const parseRealtimeBids = (
+  raw: unknown
+): { bids: RealtimeBid[]; malformed: MalformedRealtimeBid[] } => {
+  const bids: RealtimeBid[] = [];
+  const malformed: MalformedRealtimeBid[] = [];
+
+  for (const [id, entry] of Object.entries(raw || {})) {
+    if (typeof entry !== "object" || entry === null) {
+      malformed.push({ id, reason: "Bid entry is not an object" });
+      continue;
+    }
+
+    const value = entry as any;
+    const amount = Number(value.amount);
+    const bidderId = value.bidderId || value.userId;
+    const timestamp = new Date(value.timestamp);
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      malformed.push({ id, reason: "Bid amount is missing or not positive" });
+    } else if (!bidderId || typeof bidderId !== "string") {
+      malformed.push({ id, reason: "Bid has no bidder" });
+    } else if (!value.timestamp || isNaN(timestamp.getTime())) {
+      malformed.push({ id, reason: "Bid timestamp is missing or invalid" });
+    } else {
+      bids.push({
+        id,
+        amount,
+        bidderId,
+        userName: value.userName || null,
+        timestamp,
+        quantity: Number.isInteger(value.quantity) ? value.quantity : null,
+      });
+    }
+  }
+
+  return { bids, malformed };
+};
@@ -0,0 +1,121 @@
+import { UserRole } from "@prisma/client";
+import { AuctionScheduleInput } from "./auctionService";
+
+/**
+ * Parse auction settings from a request body, shared by the product
+ * routes that open or edit an auction and the procurement route.
+ * Only fields present in the body are returned so edits can be partial.
+ */
+export function parseAuctionScheduleInput(
+  body: any
+): { input: AuctionScheduleInput } | { error: string } {
+  const input: AuctionScheduleInput = {};
+
+  const numberFields = ["startingBid", "minBidIncrement"] as const;
+  for (const field of numberFields) {
+    if (body[field] !== undefined) {
+      const value = parseFloat(body[field]);
+      if (isNaN(value)) return { error: `${field} must be a number` };
+      input[field] = value;
+    }
+  }
+
+  // Optional prices and limits can be cleared by sending null
+  const nullableFields = [
+    "reservePrice",
+    "buyNowPrice",
+    "maxBidderDistanceKm",
+    "depositAmount",
+  ] as const;
+  for (const field of nullableFields) {
+    if (body[field] === null || body[field] === "") {
+      input[field] = null;
+    } else if (body[field] !== undefined) {
+      const value = parseFloat(body[field]);
+      if (isNaN(value) || value < 0) {
+        return { error: `${field} must be a non-negative number` };
+      }
+      input[field] = value;
+    }
+  }
+
+  const integerFields = [
+    "softCloseWindowMinutes",
+    "softCloseExtensionMinutes",
+    "maxExtensions",
+  ] as const;
+  for (const field of integerFields) {
+    if (body[field] !== undefined) {
+      const value = parseInt(body[field], 10);
+      if (isNaN(value)) return { error: `${field} must be a whole number` };
+      input[field] = value;
+    }
+  }
+
+  if (
+    body.priceDropIntervalMinutes === null ||
+    body.priceDropIntervalMinutes === ""
+  ) {
+    input.priceDropIntervalMinutes = null;
+  } else if (body.priceDropIntervalMinutes !== undefined) {
+    const value = parseInt(body.priceDropIntervalMinutes, 10);
+    if (isNaN(value)) {
+      return { error: "priceDropIntervalMinutes must be a whole number" };
+    }
+    input.priceDropIntervalMinutes = value;
+  }
+
+  if (body.lotSize === null || body.lotSize === "") {
+    input.lotSize = null;
+  } else if (body.lotSize !== undefined) {
+    const value = parseInt(body.lotSize, 10);
+    if (isNaN(value)) {
+      return { error: "lotSize must be a whole number" };
+    }
+    input.lotSize = value;
+  }
+
+  const booleanFields = [
+    "requireCompletedProfile",
+    "requireVerifiedWhatsapp",
+  ] as const;
+  for (const field of booleanFields) {
+    if (body[field] !== undefined) {
+      input[field] = body[field] === true || body[field] === "true";
+    }
+  }
+
+  // Roles are checked against UserRole by the auction service
+  if (body.allowedBidderRoles === null || body.allowedBidderRoles === "") {
+    input.allowedBidderRoles = [];
+  } else if (body.allowedBidderRoles !== undefined) {
+    const roles = Array.isArray(body.allowedBidderRoles)
+      ? body.allowedBidderRoles
+      : String(body.allowedBidderRoles).split(",");
+    input.allowedBidderRoles = roles.map(
+      (role: unknown) => String(role).trim().toUpperCase() as UserRole
+    );
+  }
+
+  if (body.auctionType !== undefined) {
+    input.auctionType = String(body.auctionType).toLowerCase();
+  }
+  if (body.sealedPricing === null || body.sealedPricing === "") {
+    input.sealedPricing = null;
+  } else if (body.sealedPricing !== undefined) {
+    input.sealedPricing = String(body.sealedPricing).toLowerCase();
+  }
+
+  const dateFields = ["startTime", "endTime"] as const;
+  for (const field of dateFields) {
+    if (body[field] !== undefined) {
+      const value = new Date(body[field]);
+      if (isNaN(value.getTime())) {
+        return { error: `${field} must be a valid date` };
+      }
+      input[field] = value;
+    }
+  }
+
+  return { input };
+}
@@ -1,14 +1,90 @@
+import {
+  AuctionBid,
+  AuctionDeposit,
+  AuctionRoom,
+  AuctionSecondChanceOffer,
+  AuctionSettlement,
+  Prisma,
+  UserRole,
+} from "@prisma/client";
 import prisma from "../../prisma";
+import { auctionRealtime } from "./auctionRealtime";
+import { auctionJobs } from "../../jobs/auctionJobs";
+import {
+  notifyAuctionCancelled,
+  notifyBidVoided,
+  notifyOutbid,
+  notifySettlementDisputed,
+  notifyAuctionWinner,
+  notifySellerAuctionSold,
+  notifySecondChanceOffer,
+  notifySecondChanceWinnerReplaced,
+  notifySecondChanceClosed,
+} from "../../jobs/notificationJobs";
+import { allocateLots, LotAllocationResult } from "./lotAllocation";
+import {
+  DEPOSIT_ENTRY_TYPES,
+  getDepositBalance,
+  getEligibilityFailures,
+} from "./bidderEligibility";
 
 // Types for service functions
 export interface AuctionFilters {
   status?: string;
+  category?: string;
+  city?: string;
+  state?: string;
+  // Current price: the best bid, or startingBid before the first bid
+  minPrice?: number;
+  maxPrice?: number;
+  endingWithinHours?: number;
+  sellerId?: string;
+  hasReserve?: boolean;
   limit?: number;
-  offset?: number;
+  // Id of the last auction of the previous page
+  cursor?: string;
   sortBy?: "createdAt" | "endTime" | "currentHighestBid" | "totalBids";
   sortOrder?: "asc" | "desc";
 }
 
+export interface AuctionAnalyticsFilters {
+  // Limit to one seller's auctions; omitted for the whole market
+  sellerId?: string;
+  category?: string;
+  city?: string;
+  from?: Date;
+  to?: Date;
+  groupBy?: "category" | "city" | "month";
+}
+
+export interface AuctionAnalyticsMetrics {
+  auctions: number;
+  sold: number;
+  // Share of auctions that sold
+  sellThroughRate: number;
+  // Share of auctions with a reserve that reached it
+  reserveMetRate: number | null;
+  averageClearingPricePerUnit: number | null;
+  // Average % the sold price moved above startingBid
+  averageUpliftPercent: number | null;
+  averageBidsPerAuction: number;
+  averageParticipants: number;
+}
+
+// Per-room figures the analytics are averaged from
+interface AnalyticsEntry {
+  category: string;
+  city: string;
+  month: string;
+  sold: boolean;
+  hasReserve: boolean;
+  reserveMet: boolean;
+  pricePerUnit: number | null;
+  upliftPercent: number | null;
+  totalBids: number;
+  totalParticipants: number;
+}
+
 export interface AuctionWithMetrics {
   id: string;
   productId: string;
@@ -25,6 +101,18 @@ export interface AuctionWithMetrics {
   totalParticipants: number;
   isReserveReached: boolean;
   buyNowPrice?: number;
+  softCloseWindowMinutes: number;
+  softCloseExtensionMinutes: number;
+  maxExtensions: number;
+  extensionCount: number;
+  originalEndTime?: Date;
+  outcome?: string;
+  finalPrice?: number;
+  auctionType: string;
+  sealedPricing?: string;
+  priceDropIntervalMinutes?: number;
+  lotSize?: number;
+  clearingPrice?: number;
   createdAt: Date;
   updatedAt: Date;
   // Calculated fields
@@ -39,93 +127,328 @@ export interface AuctionWithMetrics {
   bidProgress: string;
 }
 
+export interface BidSummary {
+  id: string;
+  bidderId: string;
+  bidderName: string | null;
+  amount: number;
+  timestamp: Date;
+  bidType: string;
+  previousBidAmount: number | null;
+  quantity: number | null;
+}
+
+export interface AuctionBidState {
+  id: string;
+  currentHighestBid: number | null;
+  currentHighestBidderId: string | null;
+  totalBids: number;
+  totalParticipants: number;
+  isReserveReached: boolean;
+  endTime: Date;
+  extensionCount: number;
+}
+
+export type PlaceBidResult =
+  | {
+      success: true;
+      bid: BidSummary;
+      // Proxy bids placed automatically in response to this bid
+      autoBids: BidSummary[];
+      auction: AuctionBidState;
+      extended: boolean;
+      // The bid met the buy now price and closed the auction
+      buyNow: boolean;
+      message: string;
+    }
+  | { success: false; statusCode: number; error: string };
+
+export type ProxyBidResult =
+  | {
+      success: true;
+      proxyBid: { maxAmount: number; isActive: boolean; updatedAt: Date };
+      autoBids: BidSummary[];
+      auction: AuctionBidState;
+      // An automatic bid reached the buy now price and closed the auction
+      buyNow: boolean;
+    }
+  | { success: false; statusCode: number; error: string };
+
+interface BidRecord {
+  bid: AuctionBid;
+  auction: AuctionRoom;
+  extended: boolean;
+}
+
+export interface AuctionScheduleInput {
+  startingBid?: number;
+  reservePrice?: number | null;
+  minBidIncrement?: number;
+  buyNowPrice?: number | null;
+  startTime?: Date;
+  endTime?: Date;
+  softCloseWindowMinutes?: number;
+  softCloseExtensionMinutes?: number;
+  maxExtensions?: number;
+  auctionType?: string;
+  sealedPricing?: string | null;
+  priceDropIntervalMinutes?: number | null;
+  lotSize?: number | null;
+  requireCompletedProfile?: boolean;
+  requireVerifiedWhatsapp?: boolean;
+  allowedBidderRoles?: UserRole[];
+  maxBidderDistanceKm?: number | null;
+  depositAmount?: number | null;
+}
+
+export interface DepositEntryInput {
+  userId: string;
+  type: string;
+  amount: number;
+  reference?: string;
+  note?: string;
+}
+
+export type DepositResult =
+  | { success: true; deposit: AuctionDeposit; balance: number }
+  | { success: false; statusCode: number; error: string };
+
+export interface ProcurementRequirementInput {
+  commodity: string;
+  quantity: number;
+  unit: string;
+  deliveryCity: string;
+  deliveryState?: string;
+  grade?: string;
+  variety?: string;
+  title?: string;
+  description?: string;
+}
+
+export type DutchAcceptResult =
+  | {
+      success: true;
+      bid: BidSummary;
+      auction: AuctionBidState;
+      message: string;
+    }
+  | { success: false; statusCode: number; error: string };
+
+export interface CancelAuctionInput {
+  reason: string;
+  note?: string;
+}
+
+export type WatchAuctionResult =
+  | { success: true; watchedAt: Date }
+  | { success: false; statusCode: number; error: string };
+
+export type SettlementResult =
+  | { success: true; settlement: AuctionSettlement }
+  | { success: false; statusCode: number; error: string };
+
+export type SecondChanceOfferResult =
+  | { success: true; offer: AuctionSecondChanceOffer }
+  | { success: false; statusCode: number; error: string };
+
+export type AuctionRecordResult =
+  | { success: true; auction: any }
+  | { success: false; statusCode: number; error: string };
+
+export type BidRemovalResult =
+  | {
+      success: true;
+      bid: BidSummary;
+      auction: AuctionBidState;
+      message: string;
+    }
+  | { success: false; statusCode: number; error: string };
+
+export type AuctionRoomResult =
+  | { success: true; auction: AuctionRoom }
+  | { success: false; statusCode: number; error: string };
+
+const MIN_AUCTION_DURATION_MS = 5 * 60 * 1000;
+const MAX_AUCTION_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+// Clients build startTime from their own clock, allow a little drift
+const START_TIME_GRACE_MS = 60 * 1000;
+const MAX_SOFT_CLOSE_MINUTES = 60;
+const MAX_EXTENSIONS = 50;
+const MAX_PRICE_DROP_INTERVAL_MINUTES = 24 * 60;
+const AUCTION_TYPES = ["english", "sealed", "dutch"];
+const SEALED_PRICING = ["first_price", "second_price"];
+const MAX_DISPUTE_REASON_LENGTH = 1000;
+const DEFAULT_SECOND_CHANCE_HOURS = 24;
+const MAX_SECOND_CHANCE_HOURS = 7 * 24;
+const DEFAULT_ANALYTICS_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+const DEFAULT_BID_RETRACTION_SECONDS = 60;
+const DEFAULT_WINNER_CONFIRMATION_HOURS = 48;
+const MAX_VOID_REASON_LENGTH = 1000;
+export const ANALYTICS_GROUPS = ["category", "city", "month"];
+export const CANCELLATION_REASONS = [
+  "seller_withdrawn",
+  "product_unavailable",
+  "pricing_error",
+  "duplicate_listing",
+  "suspected_fraud",
+  "policy_violation",
+  "other",
+];
+
+/**
+ * Grace window in which bidders may retract a bid they placed,
+ * AUCTION_BID_RETRACTION_SECONDS (0 disables retraction)
+ */
+const getBidRetractionWindowMs = (): number => {
+  const seconds = parseInt(
+    process.env.AUCTION_BID_RETRACTION_SECONDS || "",
+    10
+  );
+  return (
+    (Number.isInteger(seconds) && seconds >= 0
+      ? seconds
+      : DEFAULT_BID_RETRACTION_SECONDS) * 1000
+  );
+};
+
+/**
+ * Time a single-lot winner has to confirm the sale after being notified
+ * before the seller may offer the lot to the next bidder,
+ * AUCTION_WINNER_CONFIRMATION_HOURS
+ */
+const getWinnerConfirmationWindowMs = (): number => {
+  const hours = parseInt(
+    process.env.AUCTION_WINNER_CONFIRMATION_HOURS || "",
+    10
+  );
+  return (
+    (Number.isInteger(hours) && hours > 0
+      ? hours
+      : DEFAULT_WINNER_CONFIRMATION_HOURS) *
+    60 *
+    60 *
+    1000
+  );
+};
+
 // Service class for auction business logic
 export class AuctionService {
   /**
-   * Get all auctions with filtering, pagination, and enriched data
+   * Search auctions with filtering, cursor pagination, and enriched data.
+   * Rooms are returned in a light list projection: product summary and
+   * counts, without bid history or the participant list.
    */
   static async getAllAuctions(filters: AuctionFilters) {
     const {
       status,
-      limit = 100,
-      offset = 0,
+      category,
+      city,
+      state,
+      minPrice,
+      maxPrice,
+      endingWithinHours,
+      sellerId,
+      hasReserve,
+      limit = 20,
+      cursor,
       sortBy = "createdAt",
       sortOrder = "desc",
     } = filters;
 
     // Build where clause for filtering
-
-    // Build order by clause
-    const orderByClause: any = {};
-    if (sortBy === "endTime") {
-      orderByClause.endTime = sortOrder;
-    } else if (sortBy === "currentHighestBid") {
-      orderByClause.currentHighestBid = sortOrder;
-    } else if (sortBy === "totalBids") {
-      orderByClause.totalBids = sortOrder;
-    } else {
-      orderByClause.createdAt = sortOrder;
+    const conditions: Prisma.AuctionRoomWhereInput[] = [];
+    if (status) {
+      conditions.push({ status });
     }
+    if (category || city || state || sellerId) {
+      conditions.push({
+        product: {
+          ...(category && {
+            category: { equals: category, mode: "insensitive" as const },
+          }),
+          ...(city && { city: { equals: city, mode: "insensitive" as const } }),
+          ...(state && {
+            state: { equals: state, mode: "insensitive" as const },
+          }),
+          ...(sellerId && { userId: sellerId }),
+        },
+      });
+    }
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      const range = { gte: minPrice, lte: maxPrice };
+      // Sealed rooms match on startingBid so the filter cannot be used
+      // to probe hidden bids
+      conditions.push({
+        OR: [
+          { auctionType: { not: "sealed" }, currentHighestBid: range },
+          {
+            auctionType: { not: "sealed" },
+            currentHighestBid: null,
+            startingBid: range,
+          },
+          { auctionType: "sealed", startingBid: range },
+        ],
+      });
+    }
+    if (endingWithinHours !== undefined) {
+      const now = new Date();
+      conditions.push({
+        endTime: {
+          gt: now,
+          lte: new Date(now.getTime() + endingWithinHours * 60 * 60 * 1000),
+        },
+      });
+    }
+    if (hasReserve !== undefined) {
+      // A reserve of 0 or null means the auction has no reserve
+      conditions.push(
+        hasReserve
+          ? { reservePrice: { gt: 0 } }
+          : { OR: [{ reservePrice: null }, { reservePrice: { lte: 0 } }] }
+      );
+    }
+    if (sortBy === "currentHighestBid") {
+      // Ordering by a hidden best bid would rank sealed rooms by it
+      conditions.push({ auctionType: { not: "sealed" } });
+    }
+    const where: Prisma.AuctionRoomWhereInput = { AND: conditions };
+
+    // Build order by clause; id breaks ties so the cursor is stable
+    const orderByClause: Prisma.AuctionRoomOrderByWithRelationInput[] = [
+      { [sortBy]: sortOrder },
+      { id: sortOrder },
+    ];
 
-    // Fetch auctions with comprehensive relational data
     const [auctions, totalCount] = await Promise.all([
       prisma.auctionRoom.findMany({
+        where,
         include: {
-          // Product information
+          // Product summary
           product: {
             select: {
               id: true,
               title: true,
-              description: true,
               category: true,
               images: true,
               serialNumber: true,
               quantity: true,
               unit: true,
-              createdAt: true,
-              // Product owner info
+              city: true,
+              state: true,
+              // Product owner summary
               user: {
                 select: {
                   id: true,
                   name: true,
-                  personalName: true,
                   companyName: true,
                   businessName: true,
                   state: true,
                   city: true,
                   role: true,
-                  businessAddress: true,
-                  email: true,
-                  whatsapp: true,
                 },
               },
             },
           },
-          // Recent bids (last 5)
-          bids: {
-            orderBy: {
-              timestamp: "desc",
-            },
-            select: {
-              id: true,
-              amount: true,
-              timestamp: true,
-              bidderName: true,
-              isWinningBid: true,
-              bidType: true,
-            },
-          },
-          // Active participants
-          participants: {
-            select: {
-              id: true,
-              userName: true,
-              totalBidsPlaced: true,
-              highestBidAmount: true,
-              lastSeenAt: true,
-              isWinner: true,
-            },
-          },
           // Count statistics
           _count: {
             select: {
@@ -135,15 +458,22 @@ export class AuctionService {
           },
         },
         orderBy: orderByClause,
-        take: limit,
-        skip: offset,
+        // One extra row tells whether another page exists
+        take: limit + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
       }),
-      prisma.auctionRoom.count(),
+      prisma.auctionRoom.count({ where }),
     ]);
 
+    const hasMore = auctions.length > limit;
+    const page = hasMore ? auctions.slice(0, limit) : auctions;
+
     // Enrich auctions with calculated metrics
-    const enrichedAuctions = auctions.map((auction) =>
-      this.enrichAuctionWithMetrics(auction)
+    const watchers = await this.countWatchers(
+      page.map((auction) => auction.id)
+    );
+    const enrichedAuctions = page.map((auction) =>
+      this.enrichAuctionWithMetrics(auction, watchers.get(auction.id) ?? 0)
     );
 
     return {
@@ -151,8 +481,8 @@ export class AuctionService {
       pagination: {
         total: totalCount,
         limit,
-        offset,
-        hasMore: offset + limit < totalCount,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+        hasMore,
       },
     };
   }
@@ -163,6 +493,7 @@ export class AuctionService {
   static async getAuctionById(auctionId: string) {
     const auction = await prisma.auctionRoom.findUnique({
       where: { id: auctionId },
+      // proxyBids are never included: maximum amounts stay private
       include: {
         // Complete product information
         product: {
@@ -182,8 +513,9 @@ export class AuctionService {
             },
           },
         },
-        // All bids with full history
+        // Bid history, without retracted or voided bids
         bids: {
+          where: { isActive: true },
           orderBy: {
             timestamp: "desc",
           },
@@ -196,6 +528,8 @@ export class AuctionService {
             isWinningBid: true,
             bidType: true,
             previousBidAmount: true,
+            quantity: true,
+            allocatedQuantity: true,
           },
         },
         // All participants with detailed info
@@ -223,7 +557,50 @@ export class AuctionService {
     }
 
     // Calculate enhanced metrics
-    return this.enrichAuctionWithDetailedMetrics(auction);
+    const watchers = await this.countWatchers([auction.id]);
+    return this.enrichAuctionWithDetailedMetrics(
+      auction,
+      watchers.get(auction.id) ?? 0
+    );
+  }
+
+  /**
+   * Full record of a closed or cancelled auction for export. Only the
+   * seller, a winner or an admin may read it.
+   */
+  static async getAuctionRecord(
+    auctionId: string,
+    userId: string | undefined,
+    isAdmin: boolean
+  ): Promise<AuctionRecordResult> {
+    const auction = await this.getAuctionById(auctionId);
+    if (!auction) {
+      return { success: false, statusCode: 404, error: "Auction not found" };
+    }
+
+    const isParty =
+      auction.product.userId === userId ||
+      auction.participants.some(
+        (participant: any) =>
+          participant.userId === userId && participant.isWinner
+      );
+    if (!isAdmin && !isParty) {
+      return {
+        success: false,
+        statusCode: 403,
+        error: "Only the seller, a winner or an admin can export this auction",
+      };
+    }
+
+    if (!auction.outcome && auction.status !== "cancelled") {
+      return {
+        success: false,
+        statusCode: 409,
+        error: "The auction record is available once the auction has closed",
+      };
+    }
+
+    return { success: true, auction };
   }
 
   /**
@@ -326,10 +703,144 @@ export class AuctionService {
     });
   }
 
+  /**
+   * Aggregate closed auctions in a time window, overall and grouped by
+   * category, city or month of closing. Procurement (reverse) auctions
+   * are left out as their prices move the other way.
+   */
+  static async getAuctionAnalytics(filters: AuctionAnalyticsFilters) {
+    const {
+      sellerId,
+      category,
+      city,
+      to = new Date(),
+      from = new Date(to.getTime() - DEFAULT_ANALYTICS_WINDOW_MS),
+      groupBy = "category",
+    } = filters;
+
+    const rooms = await prisma.auctionRoom.findMany({
+      where: {
+        isReverse: false,
+        outcome: { not: null },
+        endTime: { gte: from, lte: to },
+        product: {
+          ...(sellerId && { userId: sellerId }),
+          ...(category && {
+            category: { equals: category, mode: "insensitive" as const },
+          }),
+          ...(city && { city: { equals: city, mode: "insensitive" as const } }),
+        },
+      },
+      select: {
+        startingBid: true,
+        reservePrice: true,
+        isReserveReached: true,
+        outcome: true,
+        finalPrice: true,
+        lotSize: true,
+        totalBids: true,
+        totalParticipants: true,
+        endTime: true,
+        product: { select: { category: true, city: true, quantity: true } },
+        settlements: { select: { quantity: true } },
+      },
+    });
+
+    const entries: AnalyticsEntry[] = rooms.map((room) => {
+      const sold = room.outcome === "sold" && room.finalPrice !== null;
+      // Multi-lot rooms may sell only part of the quantity
+      const soldQuantity = room.lotSize
+        ? room.settlements.reduce((sum, s) => sum + s.quantity, 0)
+        : room.product.quantity;
+      const pricePerUnit =
+        sold && soldQuantity > 0 ? room.finalPrice! / soldQuantity : null;
+      // Multi-lot starting bids are per unit, others are for the whole lot
+      const achieved = room.lotSize ? pricePerUnit : room.finalPrice;
+
+      return {
+        category: room.product.category,
+        city: room.product.city || "Unknown",
+        month: room.endTime.toISOString().slice(0, 7),
+        sold,
+        hasReserve: Boolean(room.reservePrice),
+        reserveMet: room.isReserveReached,
+        pricePerUnit,
+        upliftPercent:
+          sold && achieved !== null
+            ? ((achieved - room.startingBid) / room.startingBid) * 100
+            : null,
+        totalBids: room.totalBids,
+        totalParticipants: room.totalParticipants,
+      };
+    });
+
+    const groups = new Map<string, AnalyticsEntry[]>();
+    for (const entry of entries) {
+      const key = entry[groupBy];
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+
+    return {
+      window: { from, to },
+      groupBy,
+      summary: this.summarizeAnalytics(entries),
+      groups: [...groups.entries()]
+        .map(([key, group]) => ({ key, ...this.summarizeAnalytics(group) }))
+        .sort((a, b) =>
+          groupBy === "month"
+            ? a.key.localeCompare(b.key)
+            : b.auctions - a.auctions
+        ),
+    };
+  }
+
+  /**
+   * Average the per-room analytics figures
+   */
+  private static summarizeAnalytics(
+    entries: AnalyticsEntry[]
+  ): AuctionAnalyticsMetrics {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const average = (values: number[]) =>
+      values.length
+        ? round(values.reduce((sum, value) => sum + value, 0) / values.length)
+        : null;
+    const rate = (count: number, total: number) =>
+      total ? round(count / total) : null;
+
+    const sold = entries.filter((entry) => entry.sold);
+    const withReserve = entries.filter((entry) => entry.hasReserve);
+
+    return {
+      auctions: entries.length,
+      sold: sold.length,
+      sellThroughRate: rate(sold.length, entries.length) ?? 0,
+      reserveMetRate: rate(
+        withReserve.filter((entry) => entry.reserveMet).length,
+        withReserve.length
+      ),
+      averageClearingPricePerUnit: average(
+        sold.flatMap((entry) =>
+          entry.pricePerUnit === null ? [] : [entry.pricePerUnit]
+        )
+      ),
+      averageUpliftPercent: average(
+        sold.flatMap((entry) =>
+          entry.upliftPercent === null ? [] : [entry.upliftPercent]
+        )
+      ),
+      averageBidsPerAuction:
+        average(entries.map((entry) => entry.totalBids)) ?? 0,
+      averageParticipants:
+        average(entries.map((entry) => entry.totalParticipants)) ?? 0,
+    };
+  }
+
   /**
    * Enrich auction with basic metrics
    */
-  private static enrichAuctionWithMetrics(auction: any) {
+  private static enrichAuctionWithMetrics(rawAuction: any, watchers: number) {
+    const auction = this.redactSealedBids(rawAuction);
     const timeRemaining = auction.endTime.getTime() - Date.now();
     const isActive = auction.status === "active" && timeRemaining > 0;
     const hasEnded = timeRemaining <= 0 || auction.status === "ended";
@@ -344,31 +855,27 @@ export class AuctionService {
 
       // Bid analytics
       bidIncrement: auction.minBidIncrement,
-      nextMinBid: auction.currentHighestBid
-        ? auction.currentHighestBid + auction.minBidIncrement
-        : auction.startingBid,
+      nextMinBid: this.calculateNextMinBid(auction),
 
       // Participation metrics
-      activeParticipants: auction.participants.length,
+      activeParticipants: watchers,
       totalBids: auction._count.bids,
       totalParticipants: auction._count.participants,
 
       // Progress indicators
       reserveMet: auction.isReserveReached,
-      bidProgress: auction.currentHighestBid
-        ? (
-            ((auction.currentHighestBid - auction.startingBid) /
-              auction.startingBid) *
-            100
-          ).toFixed(1)
-        : "0.0",
+      bidProgress: this.calculateBidProgress(auction),
     };
   }
 
   /**
    * Enrich auction with detailed metrics for single auction view
    */
-  private static enrichAuctionWithDetailedMetrics(auction: any) {
+  private static enrichAuctionWithDetailedMetrics(
+    rawAuction: any,
+    watchers: number
+  ) {
+    const auction = this.redactSealedBids(rawAuction);
     const timeRemaining = auction.endTime.getTime() - Date.now();
     const isActive = auction.status === "active" && timeRemaining > 0;
     const hasEnded = timeRemaining <= 0 || auction.status === "ended";
@@ -385,24 +892,91 @@ export class AuctionService {
       bidHistory: auction.bids,
       winningBid: auction.bids.find((bid: any) => bid.isWinningBid),
       bidIncrement: auction.minBidIncrement,
-      nextMinBid: auction.currentHighestBid
-        ? auction.currentHighestBid + auction.minBidIncrement
-        : auction.startingBid,
+      nextMinBid: this.calculateNextMinBid(auction),
 
       // Participant analytics
-      activeParticipants: auction.participants.filter(
-        (p: any) => !p.hasLeftRoom
-      ).length,
+      activeParticipants: watchers,
       topBidders: auction.participants
         .filter((p: any) => p.totalBidsPlaced > 0)
-        .sort(
-          (a: any, b: any) =>
-            (b.highestBidAmount || 0) - (a.highestBidAmount || 0)
+        .sort((a: any, b: any) =>
+          auction.isReverse
+            ? (a.highestBidAmount ?? Infinity) -
+              (b.highestBidAmount ?? Infinity)
+            : (b.highestBidAmount || 0) - (a.highestBidAmount || 0)
         )
         .slice(0, 5),
     };
   }
 
+  /**
+   * Signed-in users currently in each room: those with an unexpired
+   * WebSocket session joined to it. Heartbeats keep a session alive.
+   */
+  private static async countWatchers(
+    auctionIds: string[]
+  ): Promise<Map<string, number>> {
+    const sessions = await prisma.webSocketConnection.findMany({
+      where: {
+        auctionRoomId: { in: auctionIds },
+        userId: { not: null },
+        expiresAt: { gt: new Date() },
+      },
+      select: { auctionRoomId: true },
+      distinct: ["auctionRoomId", "userId"],
+    });
+
+    const counts = new Map<string, number>();
+    for (const session of sessions) {
+      const id = session.auctionRoomId!;
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Check if a sealed-bid (tender) auction is still hiding its bids
+   */
+  static isSealedBidOpen(auction: any): boolean {
+    return (
+      auction.auctionType === "sealed" &&
+      (auction.status === "scheduled" || auction.status === "active") &&
+      auction.endTime.getTime() > Date.now()
+    );
+  }
+
+  /**
+   * Blank out bid amounts and bidder identities of an open tender.
+   * Works on any auction shape that includes bids and/or participants.
+   */
+  static redactSealedBids(auction: any) {
+    if (!this.isSealedBidOpen(auction)) return auction;
+
+    return {
+      ...auction,
+      currentHighestBid: null,
+      currentHighestBidderId: null,
+      clearingPrice: null,
+      ...(auction.bids && {
+        bids: auction.bids.map((bid: any) => ({
+          ...bid,
+          amount: null,
+          bidderId: null,
+          bidderName: null,
+          previousBidAmount: null,
+          quantity: null,
+        })),
+      }),
+      ...(auction.participants && {
+        participants: auction.participants.map((participant: any) => ({
+          ...participant,
+          userId: null,
+          userName: null,
+          highestBidAmount: null,
+        })),
+      }),
+    };
+  }
+
   /**
    * Format time remaining into human-readable string
    */
@@ -433,26 +1007,143 @@ export class AuctionService {
   }
 
   /**
-   * Calculate next minimum bid amount
+   * Clock price of a Dutch auction at a point in time. The price starts
+   * at startingBid and drops by minBidIncrement every interval, stopping
+   * at the floor (reservePrice, or one step when there is no reserve).
+   */
+  static calculateDutchPrice(auction: any, at: Date = new Date()): number {
+    const intervalMs = (auction.priceDropIntervalMinutes ?? 1) * 60 * 1000;
+    const elapsed = at.getTime() - auction.startTime.getTime();
+    const drops = elapsed > 0 ? Math.floor(elapsed / intervalMs) : 0;
+    const floor = auction.reservePrice || auction.minBidIncrement;
+    return Math.max(
+      floor,
+      auction.startingBid - drops * auction.minBidIncrement
+    );
+  }
+
+  /**
+   * Calculate next minimum bid amount.
+   * For reverse auctions this is the highest acceptable next bid:
+   * the current lowest bid less the decrement, or the ceiling.
+   * For Dutch auctions it is the current clock price.
    */
   static calculateNextMinBid(auction: any): number {
+    if (auction.auctionType === "dutch") {
+      return this.calculateDutchPrice(auction);
+    }
+    // Multi-lot rooms: once all quantity is taken a bid has to beat the
+    // lowest allocated price per unit
+    if (auction.lotSize) {
+      return auction.clearingPrice !== null &&
+        auction.clearingPrice !== undefined
+        ? auction.clearingPrice + auction.minBidIncrement
+        : auction.startingBid;
+    }
+    if (auction.isReverse) {
+      return auction.currentHighestBid
+        ? auction.currentHighestBid - auction.minBidIncrement
+        : auction.startingBid;
+    }
     return auction.currentHighestBid
       ? auction.currentHighestBid + auction.minBidIncrement
       : auction.startingBid;
   }
 
+  /**
+   * Check if amount beats another bid in this auction's direction
+   */
+  static isBetterBid(auction: any, amount: number, than: number | null) {
+    if (than === null) return true;
+    return auction.isReverse ? amount < than : amount > than;
+  }
+
+  /**
+   * Percentage the best bid has moved from the starting bid.
+   * Reverse auctions report the saving against the ceiling price.
+   */
+  private static calculateBidProgress(auction: any): string {
+    if (!auction.currentHighestBid) return "0.0";
+    const change = auction.isReverse
+      ? auction.startingBid - auction.currentHighestBid
+      : auction.currentHighestBid - auction.startingBid;
+    return ((change / auction.startingBid) * 100).toFixed(1);
+  }
+
+  /**
+   * Check if a bid amount satisfies the reserve.
+   * A reserve of 0 or null means there is no reserve.
+   */
+  static isReserveMet(auction: any, amount: number): boolean {
+    if (!auction.reservePrice) return true;
+    return auction.isReverse
+      ? amount <= auction.reservePrice
+      : amount >= auction.reservePrice;
+  }
+
+  /**
+   * Work out whether a bid placed at bidTime triggers the soft close.
+   * Returns the new end time, or null when no extension applies.
+   */
+  static calculateSoftCloseExtension(auction: any, bidTime: Date): Date | null {
+    const windowMs = auction.softCloseWindowMinutes * 60 * 1000;
+    const extensionMs = auction.softCloseExtensionMinutes * 60 * 1000;
+
+    if (windowMs <= 0 || extensionMs <= 0) return null;
+    if (auction.extensionCount >= auction.maxExtensions) return null;
+
+    const remaining = auction.endTime.getTime() - bidTime.getTime();
+    if (remaining <= 0 || remaining > windowMs) return null;
+
+    return new Date(auction.endTime.getTime() + extensionMs);
+  }
+
   /**
    * Validate bid amount
    */
   static validateBidAmount(
     auction: any,
     bidAmount: number
-  ): { isValid: boolean; message: string } {
+  ): { isValid: boolean; message: string; isBuyNow?: boolean } {
     if (!this.isAuctionActiveForBidding(auction)) {
       return { isValid: false, message: "Auction is not active for bidding" };
     }
 
+    if (auction.auctionType === "dutch") {
+      return {
+        isValid: false,
+        message: "Dutch auctions are won by accepting the current price",
+      };
+    }
+
+    // Tender bids are blind, so they only have to meet the starting bid
+    if (auction.auctionType === "sealed") {
+      if (auction.isReverse && bidAmount > auction.startingBid) {
+        return {
+          isValid: false,
+          message: `Bid must be at most ${auction.startingBid}`,
+        };
+      }
+      if (!auction.isReverse && bidAmount < auction.startingBid) {
+        return {
+          isValid: false,
+          message: `Bid must be at least ${auction.startingBid}`,
+        };
+      }
+      return { isValid: true, message: "Sealed bid received" };
+    }
+
     const nextMinBid = this.calculateNextMinBid(auction);
+    if (auction.isReverse) {
+      if (nextMinBid <= 0 || bidAmount > nextMinBid) {
+        return {
+          isValid: false,
+          message: `Bid must be at most ${Math.max(nextMinBid, 0)}`,
+        };
+      }
+      return { isValid: true, message: "Valid bid" };
+    }
+
     if (bidAmount < nextMinBid) {
       return {
         isValid: false,
@@ -460,13 +1151,3193 @@ export class AuctionService {
       };
     }
 
-    if (auction.buyNowPrice && bidAmount >= auction.buyNowPrice) {
+    // Buy now stays available only while bidding is below the price
+    if (
+      auction.buyNowPrice &&
+      bidAmount >= auction.buyNowPrice &&
+      (auction.currentHighestBid ?? 0) < auction.buyNowPrice
+    ) {
       return {
         isValid: true,
         message: "Buy now price triggered",
+        isBuyNow: true,
       };
     }
 
     return { isValid: true, message: "Valid bid" };
   }
+
+  /**
+   * Check the quantity requested with a bid. Multi-lot rooms need whole
+   * lots up to the product quantity; other rooms sell everything at once.
+   */
+  static validateLotQuantity(
+    auction: any,
+    quantity: number | undefined,
+    productQuantity: number
+  ): { isValid: boolean; message: string } {
+    if (!auction.lotSize) {
+      return quantity === undefined
+        ? { isValid: true, message: "Valid quantity" }
+        : {
+            isValid: false,
+            message: "Quantity only applies to multi-lot auctions",
+          };
+    }
+
+    if (
+      quantity === undefined ||
+      !Number.isInteger(quantity) ||
+      quantity < auction.lotSize ||
+      quantity % auction.lotSize !== 0
+    ) {
+      return {
+        isValid: false,
+        message: `Quantity must be a whole number of lots of ${auction.lotSize}`,
+      };
+    }
+
+    if (quantity > productQuantity) {
+      return {
+        isValid: false,
+        message: `Quantity cannot exceed the ${productQuantity} on offer`,
+      };
+    }
+
+    return { isValid: true, message: "Valid quantity" };
+  }
+
+  /**
+   * Allocate a multi-lot room's quantity to its current standing bids
+   */
+  private static async getLotAllocation(
+    tx: Prisma.TransactionClient,
+    auction: AuctionRoom,
+    productQuantity: number
+  ): Promise<LotAllocationResult> {
+    const bids = await tx.auctionBid.findMany({
+      where: { auctionRoomId: auction.id, isActive: true },
+      select: {
+        id: true,
+        bidderId: true,
+        amount: true,
+        quantity: true,
+        timestamp: true,
+      },
+    });
+    return allocateLots(
+      bids,
+      productQuantity,
+      auction.lotSize ?? productQuantity,
+      auction.reservePrice
+    );
+  }
+
+  /**
+   * Reasons the bidder fails the room's eligibility rules; empty when
+   * they may bid
+   */
+  private static async getIneligibilityReasons(
+    tx: Prisma.TransactionClient,
+    auction: AuctionRoom & { product: { userId: string } },
+    bidderId: string
+  ): Promise<string[]> {
+    const bidder = await tx.user.findUnique({
+      where: { id: bidderId },
+      select: {
+        profileCompleted: true,
+        whatsappVerified: true,
+        role: true,
+        latitude: true,
+        longitude: true,
+      },
+    });
+    if (!bidder) {
+      return ["User not found in database. Please complete onboarding first."];
+    }
+
+    const seller =
+      auction.maxBidderDistanceKm !== null
+        ? await tx.user.findUnique({
+            where: { id: auction.product.userId },
+            select: { latitude: true, longitude: true },
+          })
+        : null;
+    const entries = auction.depositAmount
+      ? await tx.auctionDeposit.findMany({
+          where: { auctionRoomId: auction.id, userId: bidderId },
+          select: { type: true, amount: true },
+        })
+      : [];
+
+    return getEligibilityFailures(
+      auction,
+      bidder,
+      seller,
+      getDepositBalance(entries)
+    );
+  }
+
+  /**
+   * Look up the display name stored on bids and participants
+   */
+  private static async getBidderName(
+    client: Prisma.TransactionClient,
+    userId: string
+  ): Promise<string | null> {
+    const user = await client.user.findUnique({
+      where: { id: userId },
+      select: { businessName: true, personalName: true, name: true },
+    });
+    return user?.businessName || user?.personalName || user?.name || null;
+  }
+
+  /**
+   * Write a bid row and roll it into the room and participant aggregates.
+   * Callers must hold the room lock and have validated the amount.
+   */
+  private static async recordBid(
+    tx: Prisma.TransactionClient,
+    auction: AuctionRoom,
+    bidderId: string,
+    bidderName: string | null,
+    amount: number,
+    bidType: "regular" | "proxy" | "buy_now" | "dutch_accept",
+    now: Date,
+    quantity: number | null = null
+  ): Promise<BidRecord> {
+    // Buy now and Dutch accepts end the auction, so they never extend it
+    const extendedEndTime =
+      bidType === "buy_now" || bidType === "dutch_accept"
+        ? null
+        : this.calculateSoftCloseExtension(auction, now);
+
+    const bid = await tx.auctionBid.create({
+      data: {
+        auctionRoomId: auction.id,
+        bidderId,
+        bidderName,
+        amount,
+        bidType,
+        timestamp: now,
+        previousBidAmount: auction.currentHighestBid,
+        quantity,
+        extendedEndTime: extendedEndTime !== null,
+      },
+    });
+
+    const existingParticipant = await tx.auctionParticipant.findUnique({
+      where: {
+        auctionRoomId_userId: { auctionRoomId: auction.id, userId: bidderId },
+      },
+    });
+
+    if (existingParticipant) {
+      await tx.auctionParticipant.update({
+        where: { id: existingParticipant.id },
+        data: {
+          userName: bidderName,
+          lastSeenAt: now,
+          hasLeftRoom: false,
+          totalBidsPlaced: { increment: 1 },
+          // Best bid: the lowest one in a reverse auction
+          highestBidAmount: this.isBetterBid(
+            auction,
+            amount,
+            existingParticipant.highestBidAmount
+          )
+            ? amount
+            : existingParticipant.highestBidAmount,
+        },
+      });
+    } else {
+      await tx.auctionParticipant.create({
+        data: {
+          auctionRoomId: auction.id,
+          userId: bidderId,
+          userName: bidderName,
+          firstJoinedAt: now,
+          lastSeenAt: now,
+          totalBidsPlaced: 1,
+          highestBidAmount: amount,
+        },
+      });
+    }
+
+    // Sealed bids can land behind the current best bid
+    const isNewHigh = this.isBetterBid(
+      auction,
+      amount,
+      auction.currentHighestBid
+    );
+
+    const updatedAuction = await tx.auctionRoom.update({
+      where: { id: auction.id },
+      data: {
+        ...(extendedEndTime && {
+          endTime: extendedEndTime,
+          extensionCount: { increment: 1 },
+          originalEndTime: auction.originalEndTime ?? auction.endTime,
+        }),
+        ...(isNewHigh && {
+          currentHighestBid: amount,
+          currentHighestBidderId: bidderId,
+        }),
+        totalBids: { increment: 1 },
+        // A participant whose bids were all retracted or voided counts again
+        totalParticipants: existingParticipant?.totalBidsPlaced
+          ? undefined
+          : { increment: 1 },
+        isReserveReached:
+          auction.isReserveReached || this.isReserveMet(auction, amount),
+      },
+    });
+
+    return {
+      bid,
+      auction: updatedAuction,
+      extended: extendedEndTime !== null,
+    };
+  }
+
+  /**
+   * Record that a user joined, is still watching or left an auction room
+   * and broadcast their presence through the realtime gateway.
+   * Watching is tracked by the user's WebSocket sessions; only bidders
+   * have a participant row, whose lastSeenAt and hasLeftRoom follow it.
+   */
+  static async markPresence(
+    auctionId: string,
+    userId: string,
+    online: boolean
+  ): Promise<void> {
+    const now = new Date();
+
+    await prisma.auctionParticipant.updateMany({
+      where: { auctionRoomId: auctionId, userId },
+      data: { lastSeenAt: now, hasLeftRoom: !online },
+    });
+
+    try {
+      await auctionRealtime.publishPresence(auctionId, {
+        userId,
+        userName: await this.getBidderName(prisma, userId),
+        online,
+        lastSeenAt: now,
+      });
+    } catch (error) {
+      console.error("Failed to publish auction presence:", error);
+    }
+  }
+
+  /**
+   * Auto-bid on behalf of proxy bidders after the room price changed.
+   *
+   * Every active proxy that can still beat the price, plus the current
+   * leader, is ranked by maximum amount and then by when that maximum
+   * was set (earlier wins ties). The runner-up is pushed to its maximum
+   * and the winner bids one increment above it, capped at its own
+   * maximum. One pass settles the room: no remaining proxy can beat
+   * the resulting price. Proxies of bidders who no longer meet the
+   * room's eligibility rules (e.g. after a deposit refund) are stopped.
+   * An auto-bid that reaches the buy now price is placed as a buy now
+   * at that price and ends the room, as a manual bid would; the
+   * runner-up is never pushed there, so the higher maximum buys.
+   */
+  private static async resolveProxyBids(
+    tx: Prisma.TransactionClient,
+    auction: AuctionRoom,
+    now: Date
+  ): Promise<BidRecord[]> {
+    const records: BidRecord[] = [];
+    let current = auction;
+    const leaderId = current.currentHighestBidderId;
+    const leaderBid = current.currentHighestBid;
+
+    const candidates = await tx.auctionProxyBid.findMany({
+      where: {
+        auctionRoomId: current.id,
+        isActive: true,
+        OR: [
+          { maxAmount: { gte: this.calculateNextMinBid(current) } },
+          ...(leaderId ? [{ bidderId: leaderId }] : []),
+        ],
+      },
+      orderBy: [{ maxAmount: "desc" }, { updatedAt: "asc" }, { id: "asc" }],
+    });
+
+    const product = await tx.product.findUniqueOrThrow({
+      where: { id: current.productId },
+      select: { userId: true },
+    });
+    const proxies: typeof candidates = [];
+    for (const proxy of candidates) {
+      const ineligible = await this.getIneligibilityReasons(
+        tx,
+        { ...current, product },
+        proxy.bidderId
+      );
+      if (ineligible.length === 0) {
+        proxies.push(proxy);
+        continue;
+      }
+      await tx.auctionProxyBid.update({
+        where: { id: proxy.id },
+        data: { isActive: false },
+      });
+    }
+
+    const contenders = proxies.map((proxy) => ({
+      bidderId: proxy.bidderId,
+      maxAmount:
+        proxy.bidderId === leaderId
+          ? Math.max(proxy.maxAmount, leaderBid ?? 0)
+          : proxy.maxAmount,
+      isProxy: true,
+    }));
+
+    // A leader without a proxy holds at their standing bid
+    if (
+      leaderId &&
+      leaderBid !== null &&
+      !contenders.some((c) => c.bidderId === leaderId)
+    ) {
+      contenders.push({
+        bidderId: leaderId,
+        maxAmount: leaderBid,
+        isProxy: false,
+      });
+    }
+
+    // Stable sort keeps the earlier-set maximum first on ties
+    contenders.sort((a, b) => b.maxAmount - a.maxAmount);
+
+    const [winner, runnerUp] = contenders;
+    // Only proxies respond, and a leader with no challenger stays put
+    if (!winner || !winner.isProxy) return records;
+    if (!runnerUp && winner.bidderId === leaderId) return records;
+
+    const buyNowPrice = current.buyNowPrice;
+    const reachesBuyNow = (amount: number) =>
+      !!buyNowPrice &&
+      amount >= buyNowPrice &&
+      (current.currentHighestBid ?? 0) < buyNowPrice;
+
+    const place = async (bidderId: string, amount: number) => {
+      const bidderName = await this.getBidderName(tx, bidderId);
+      const buyNow = reachesBuyNow(amount);
+      const record = await this.recordBid(
+        tx,
+        current,
+        bidderId,
+        bidderName,
+        buyNow ? buyNowPrice! : amount,
+        buyNow ? "buy_now" : "proxy",
+        now
+      );
+      current = buyNow
+        ? await tx.auctionRoom.update({
+            where: { id: current.id },
+            data: { endTime: now, winnerId: bidderId, isReserveReached: true },
+          })
+        : record.auction;
+      records.push({ ...record, auction: current });
+    };
+
+    if (
+      runnerUp &&
+      runnerUp.isProxy &&
+      runnerUp.maxAmount < winner.maxAmount &&
+      runnerUp.maxAmount >= this.calculateNextMinBid(current) &&
+      !reachesBuyNow(runnerUp.maxAmount)
+    ) {
+      await place(runnerUp.bidderId, runnerUp.maxAmount);
+    }
+
+    const target = runnerUp
+      ? Math.max(
+          this.calculateNextMinBid(current),
+          runnerUp.maxAmount + current.minBidIncrement
+        )
+      : this.calculateNextMinBid(current);
+    const amount = Math.min(winner.maxAmount, target);
+
+    if (
+      winner.bidderId !== current.currentHighestBidderId ||
+      amount > (current.currentHighestBid ?? 0)
+    ) {
+      await place(winner.bidderId, amount);
+    }
+
+    return records;
+  }
+
+  /**
+   * Whether the proxy engine's auto-bids ended the room with a buy now
+   */
+  private static endedByBuyNow(records: BidRecord[]): boolean {
+    return records.some(({ bid }) => bid.bidType === "buy_now");
+  }
+
+  /**
+   * Shape a bid for API responses
+   */
+  private static toBidSummary(bid: AuctionBid): BidSummary {
+    return {
+      id: bid.id,
+      bidderId: bid.bidderId,
+      bidderName: bid.bidderName,
+      amount: bid.amount,
+      timestamp: bid.timestamp,
+      bidType: bid.bidType,
+      previousBidAmount: bid.previousBidAmount,
+      quantity: bid.quantity,
+    };
+  }
+
+  /**
+   * Shape the room's bidding state for API responses
+   */
+  private static toBidState(rawAuction: AuctionRoom): AuctionBidState {
+    const auction = this.redactSealedBids(rawAuction);
+    return {
+      id: auction.id,
+      currentHighestBid: auction.currentHighestBid,
+      currentHighestBidderId: auction.currentHighestBidderId,
+      totalBids: auction.totalBids,
+      totalParticipants: auction.totalParticipants,
+      isReserveReached: auction.isReserveReached,
+      endTime: auction.endTime,
+      extensionCount: auction.extensionCount,
+    };
+  }
+
+  /**
+   * Mirror recorded bids to the realtime database.
+   * Postgres is authoritative; a failed mirror must not reject the bid.
+   */
+  private static async mirrorBids(
+    auction: AuctionRoom,
+    records: BidRecord[]
+  ): Promise<void> {
+    try {
+      // Open tenders only reveal that a bid arrived
+      if (this.isSealedBidOpen(auction)) {
+        await auctionRealtime.publishBidCount(auction.id, auction.totalBids);
+        return;
+      }
+
+      for (const { bid } of records) {
+        await auctionRealtime.publishBid(
+          auction.id,
+          {
+            id: bid.id,
+            amount: bid.amount,
+            bidderId: bid.bidderId,
+            userName: bid.bidderName,
+            timestamp: bid.timestamp,
+            quantity: bid.quantity,
+          },
+          auction
+        );
+      }
+    } catch (error) {
+      console.error("Failed to mirror bid to realtime database:", error);
+    }
+  }
+
+  /**
+   * Alert the bidder who led before a bid operation if they lost the
+   * lead to someone other than themselves. Open tenders stay silent, and
+   * the alert is sent in the background so it never delays the bid.
+   */
+  private static alertDisplacedLeader(
+    previousLeaderId: string | null,
+    auction: AuctionRoom,
+    actorId: string
+  ) {
+    if (
+      !previousLeaderId ||
+      previousLeaderId === actorId ||
+      previousLeaderId === auction.currentHighestBidderId ||
+      auction.auctionType === "sealed"
+    ) {
+      return;
+    }
+
+    notifyOutbid(
+      auction.id,
+      previousLeaderId,
+      auction.currentHighestBid ?? 0
+    ).catch((error) => {
+      console.error("Failed to send outbid notification:", error);
+    });
+  }
+
+  /**
+   * Record a multi-lot bid and refresh the room's clearing price.
+   * Returns the bidders who held an allocation before the bid and lost it.
+   */
+  private static async recordLotBid(
+    tx: Prisma.TransactionClient,
+    auction: AuctionRoom & { product: { quantity: number } },
+    bidderId: string,
+    bidderName: string | null,
+    amount: number,
+    quantity: number,
+    now: Date
+  ) {
+    const before = await this.getLotAllocation(
+      tx,
+      auction,
+      auction.product.quantity
+    );
+    const record = await this.recordBid(
+      tx,
+      auction,
+      bidderId,
+      bidderName,
+      amount,
+      "regular",
+      now,
+      quantity
+    );
+    const after = await this.getLotAllocation(
+      tx,
+      record.auction,
+      auction.product.quantity
+    );
+
+    // Open tenders keep the clearing price hidden until they close
+    const updatedAuction =
+      auction.auctionType === "sealed"
+        ? record.auction
+        : await tx.auctionRoom.update({
+            where: { id: auction.id },
+            data: { clearingPrice: after.clearingPrice },
+          });
+
+    const stillAllocated = new Set(after.allocations.map((a) => a.bidderId));
+    const displacedBidderIds = before.allocations
+      .map((a) => a.bidderId)
+      .filter((id) => id !== bidderId && !stillAllocated.has(id));
+
+    return {
+      records: [{ ...record, auction: updatedAuction }],
+      auction: updatedAuction,
+      previousLeaderId: null,
+      displacedBidderIds,
+    };
+  }
+
+  /**
+   * Alert multi-lot bidders whose standing bid no longer wins any
+   * quantity. Sent in the background like other outbid alerts.
+   */
+  private static alertDisplacedLotBidders(
+    bidderIds: string[],
+    auction: AuctionRoom
+  ) {
+    if (auction.auctionType === "sealed") return;
+
+    for (const bidderId of bidderIds) {
+      notifyOutbid(
+        auction.id,
+        bidderId,
+        this.calculateNextMinBid(auction)
+      ).catch((error) => {
+        console.error("Failed to send outbid notification:", error);
+      });
+    }
+  }
+
+  /**
+   * Place a bid on behalf of an authenticated user.
+   * The room row is locked for the duration of the transaction so
+   * concurrent bids are validated against the latest highest bid.
+   * Proxy bidders outbid by this bid respond in the same transaction.
+   * A bid at or above the buy now price is recorded at that price and
+   * closes the auction immediately through the normal close pipeline.
+   */
+  static async placeBid(
+    auctionId: string,
+    bidderId: string,
+    amount: number,
+    quantity?: number
+  ): Promise<PlaceBidResult> {
+    const bidder = await prisma.user.findUnique({
+      where: { id: bidderId },
+      select: { id: true },
+    });
+
+    if (!bidder) {
+      return {
+        success: false,
+        statusCode: 404,
+        error: "User not found in database. Please complete onboarding first.",
+      };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+
+      const auction = await tx.auctionRoom.findUnique({
+        where: { id: auctionId },
+        include: { product: { select: { userId: true, quantity: true } } },
+      });
+
+      if (!auction) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Auction not found",
+        };
+      }
+
+      if (auction.product.userId === bidderId) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: "You cannot bid on your own auction",
+        };
+      }
+
+      const ineligible = await this.getIneligibilityReasons(
+        tx,
+        auction,
+        bidderId
+      );
+      if (ineligible.length > 0) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: ineligible.join(". "),
+        };
+      }
+
+      const validation = this.validateBidAmount(auction, amount);
+      if (!validation.isValid) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: validation.message,
+        };
+      }
+
+      const quantityCheck = this.validateLotQuantity(
+        auction,
+        quantity,
+        auction.product.quantity
+      );
+      if (!quantityCheck.isValid) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: quantityCheck.message,
+        };
+      }
+
+      // A multi-lot bid replaces the bidder's standing bid, which may
+      // change its quantity but never lower its price per unit
+      if (auction.lotSize) {
+        const participant = await tx.auctionParticipant.findUnique({
+          where: {
+            auctionRoomId_userId: {
+              auctionRoomId: auctionId,
+              userId: bidderId,
+            },
+          },
+        });
+        if (
+          participant?.highestBidAmount &&
+          amount < participant.highestBidAmount
+        ) {
+          return {
+            success: false as const,
+            statusCode: 400,
+            error: `A revised bid cannot be below your current ${participant.highestBidAmount} per unit`,
+          };
+        }
+      } else if (auction.auctionType === "sealed") {
+        const participant = await tx.auctionParticipant.findUnique({
+          where: {
+            auctionRoomId_userId: {
+              auctionRoomId: auctionId,
+              userId: bidderId,
+            },
+          },
+        });
+        if (
+          participant?.highestBidAmount &&
+          !this.isBetterBid(auction, amount, participant.highestBidAmount)
+        ) {
+          return {
+            success: false as const,
+            statusCode: 400,
+            error: auction.isReverse
+              ? "A revised sealed bid must be lower than your previous bid"
+              : "A revised sealed bid must be higher than your previous bid",
+          };
+        }
+      }
+
+      const now = new Date();
+      const bidderName = await this.getBidderName(tx, bidderId);
+
+      if (validation.isBuyNow) {
+        const record = await this.recordBid(
+          tx,
+          auction,
+          bidderId,
+          bidderName,
+          auction.buyNowPrice!,
+          "buy_now",
+          now
+        );
+        const closedAuction = await tx.auctionRoom.update({
+          where: { id: auctionId },
+          data: { endTime: now, winnerId: bidderId, isReserveReached: true },
+        });
+
+        return {
+          success: true as const,
+          records: [{ ...record, auction: closedAuction }],
+          auction: closedAuction,
+          previousLeaderId: auction.currentHighestBidderId,
+          displacedBidderIds: [] as string[],
+          buyNow: true,
+          message: validation.message,
+        };
+      }
+
+      if (auction.lotSize) {
+        return {
+          success: true as const,
+          ...(await this.recordLotBid(
+            tx,
+            auction,
+            bidderId,
+            bidderName,
+            amount,
+            quantity!,
+            now
+          )),
+          buyNow: false,
+          message: validation.message,
+        };
+      }
+
+      const record = await this.recordBid(
+        tx,
+        auction,
+        bidderId,
+        bidderName,
+        amount,
+        "regular",
+        now
+      );
+      const autoBids =
+        auction.auctionType === "sealed" || auction.isReverse
+          ? []
+          : await this.resolveProxyBids(tx, record.auction, now);
+      const records = [record, ...autoBids];
+      const buyNow = this.endedByBuyNow(autoBids);
+
+      return {
+        success: true as const,
+        records,
+        auction: records[records.length - 1].auction,
+        previousLeaderId: auction.currentHighestBidderId,
+        displacedBidderIds: [] as string[],
+        buyNow,
+        message: buyNow ? "Buy now price triggered" : validation.message,
+      };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    await this.mirrorBids(result.auction, result.records);
+    this.alertDisplacedLeader(
+      result.previousLeaderId,
+      result.auction,
+      bidderId
+    );
+    this.alertDisplacedLotBidders(result.displacedBidderIds, result.auction);
+
+    if (result.buyNow) {
+      // If closing fails the expiry job picks the room up on its next run
+      try {
+        await auctionJobs.closeAuctionNow(auctionId);
+      } catch (error) {
+        console.error("Failed to close auction after buy now:", error);
+      }
+    }
+
+    const [placed, ...autoBids] = result.records;
+    return {
+      success: true,
+      bid: this.toBidSummary(placed.bid),
+      autoBids: autoBids.map(({ bid }) => this.toBidSummary(bid)),
+      auction: this.toBidState(result.auction),
+      extended: result.records.some((record) => record.extended),
+      buyNow: result.buyNow,
+      message: result.message,
+    };
+  }
+
+  /**
+   * Accept the current clock price of a Dutch auction.
+   * The room is locked so only the first bidder to accept wins; the
+   * accept is recorded as a bid at the clock price and the auction
+   * closes immediately through the normal close pipeline.
+   */
+  static async acceptDutchPrice(
+    auctionId: string,
+    bidderId: string
+  ): Promise<DutchAcceptResult> {
+    const bidder = await prisma.user.findUnique({
+      where: { id: bidderId },
+      select: { id: true },
+    });
+
+    if (!bidder) {
+      return {
+        success: false,
+        statusCode: 404,
+        error: "User not found in database. Please complete onboarding first.",
+      };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+
+      const auction = await tx.auctionRoom.findUnique({
+        where: { id: auctionId },
+        include: { product: { select: { userId: true } } },
+      });
+
+      if (!auction) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Auction not found",
+        };
+      }
+
+      if (auction.auctionType !== "dutch") {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: "Only Dutch auctions can be accepted at the current price",
+        };
+      }
+
+      if (auction.product.userId === bidderId) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: "You cannot bid on your own auction",
+        };
+      }
+
+      const ineligible = await this.getIneligibilityReasons(
+        tx,
+        auction,
+        bidderId
+      );
+      if (ineligible.length > 0) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: ineligible.join(". "),
+        };
+      }
+
+      if (auction.winnerId) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "This lot has already been accepted by another bidder",
+        };
+      }
+
+      if (!this.isAuctionActiveForBidding(auction)) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: "Auction is not active for bidding",
+        };
+      }
+
+      const now = new Date();
+      const price = this.calculateDutchPrice(auction, now);
+      const bidderName = await this.getBidderName(tx, bidderId);
+      const record = await this.recordBid(
+        tx,
+        auction,
+        bidderId,
+        bidderName,
+        price,
+        "dutch_accept",
+        now
+      );
+      const closedAuction = await tx.auctionRoom.update({
+        where: { id: auctionId },
+        data: { endTime: now, winnerId: bidderId, isReserveReached: true },
+      });
+
+      return {
+        success: true as const,
+        record: { ...record, auction: closedAuction },
+      };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    const { record } = result;
+    await this.mirrorBids(record.auction, [record]);
+
+    // If closing fails the expiry job picks the room up on its next run
+    try {
+      await auctionJobs.closeAuctionNow(auctionId);
+    } catch (error) {
+      console.error("Failed to close auction after Dutch accept:", error);
+    }
+
+    return {
+      success: true,
+      bid: this.toBidSummary(record.bid),
+      auction: this.toBidState(record.auction),
+      message: `Lot accepted at ${record.bid.amount}`,
+    };
+  }
+
+  /**
+   * Register or change a bidder's hidden maximum and let the proxy
+   * engine bid on their behalf straight away if they are not leading
+   */
+  static async setProxyBid(
+    auctionId: string,
+    bidderId: string,
+    maxAmount: number
+  ): Promise<ProxyBidResult> {
+    const bidder = await prisma.user.findUnique({
+      where: { id: bidderId },
+      select: { id: true },
+    });
+
+    if (!bidder) {
+      return {
+        success: false,
+        statusCode: 404,
+        error: "User not found in database. Please complete onboarding first.",
+      };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+
+      const auction = await tx.auctionRoom.findUnique({
+        where: { id: auctionId },
+        include: { product: { select: { userId: true } } },
+      });
+
+      if (!auction) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Auction not found",
+        };
+      }
+
+      if (auction.product.userId === bidderId) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: "You cannot bid on your own auction",
+        };
+      }
+
+      const ineligible = await this.getIneligibilityReasons(
+        tx,
+        auction,
+        bidderId
+      );
+      if (ineligible.length > 0) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: ineligible.join(". "),
+        };
+      }
+
+      if (!this.isAuctionActiveForBidding(auction)) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: "Auction is not active for bidding",
+        };
+      }
+
+      if (
+        auction.auctionType !== "english" ||
+        auction.isReverse ||
+        auction.lotSize
+      ) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error:
+            "Proxy bidding is only available for single-lot open ascending auctions",
+        };
+      }
+
+      const isLeader = auction.currentHighestBidderId === bidderId;
+      const minimum = isLeader
+        ? (auction.currentHighestBid ?? auction.startingBid)
+        : this.calculateNextMinBid(auction);
+      if (isLeader ? maxAmount <= minimum : maxAmount < minimum) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: isLeader
+            ? `Maximum bid must be higher than your current bid of ${minimum}`
+            : `Maximum bid must be at least ${minimum}`,
+        };
+      }
+
+      const proxyBid = await tx.auctionProxyBid.upsert({
+        where: {
+          auctionRoomId_bidderId: { auctionRoomId: auctionId, bidderId },
+        },
+        create: { auctionRoomId: auctionId, bidderId, maxAmount },
+        update: { maxAmount, isActive: true },
+      });
+
+      const records = await this.resolveProxyBids(tx, auction, new Date());
+
+      return {
+        success: true as const,
+        proxyBid,
+        records,
+        auction: records.length ? records[records.length - 1].auction : auction,
+        previousLeaderId: auction.currentHighestBidderId,
+        buyNow: this.endedByBuyNow(records),
+      };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    await this.mirrorBids(result.auction, result.records);
+    this.alertDisplacedLeader(
+      result.previousLeaderId,
+      result.auction,
+      bidderId
+    );
+
+    if (result.buyNow) {
+      // If closing fails the expiry job picks the room up on its next run
+      try {
+        await auctionJobs.closeAuctionNow(auctionId);
+      } catch (error) {
+        console.error("Failed to close auction after buy now:", error);
+      }
+    }
+
+    return {
+      success: true,
+      proxyBid: {
+        maxAmount: result.proxyBid.maxAmount,
+        isActive: result.proxyBid.isActive,
+        updatedAt: result.proxyBid.updatedAt,
+      },
+      autoBids: result.records.map(({ bid }) => this.toBidSummary(bid)),
+      auction: this.toBidState(result.auction),
+      buyNow: result.buyNow,
+    };
+  }
+
+  /**
+   * Get the caller's own proxy bid. Maximum amounts are only ever
+   * returned to the bidder who set them.
+   */
+  static async getProxyBid(auctionId: string, bidderId: string) {
+    return await prisma.auctionProxyBid.findUnique({
+      where: {
+        auctionRoomId_bidderId: { auctionRoomId: auctionId, bidderId },
+      },
+      select: { maxAmount: true, isActive: true, updatedAt: true },
+    });
+  }
+
+  /**
+   * Stop auto-bidding for the caller. Bids already placed stay valid.
+   */
+  static async cancelProxyBid(auctionId: string, bidderId: string) {
+    const result = await prisma.auctionProxyBid.updateMany({
+      where: { auctionRoomId: auctionId, bidderId, isActive: true },
+      data: { isActive: false },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Rebuild the room counters and the bidder's participant aggregates
+   * from the remaining active bids, after one of the bidder's bids was
+   * retracted or voided. Callers must hold the room lock.
+   */
+  private static async recalculateBidAggregates(
+    tx: Prisma.TransactionClient,
+    auction: AuctionRoom & { product: { quantity: number } },
+    bidderId: string
+  ): Promise<AuctionRoom> {
+    const bids = await tx.auctionBid.findMany({
+      where: { auctionRoomId: auction.id, isActive: true },
+    });
+    const ranking = this.rankBidders(auction, bids);
+    const leader = ranking[0] ?? null;
+    const bidderBest = ranking.find((bid) => bid.bidderId === bidderId);
+
+    await tx.auctionParticipant.updateMany({
+      where: { auctionRoomId: auction.id, userId: bidderId },
+      data: {
+        totalBidsPlaced: bids.filter((bid) => bid.bidderId === bidderId).length,
+        highestBidAmount: bidderBest?.amount ?? null,
+      },
+    });
+
+    // Open tenders keep the clearing price hidden until they close
+    const clearingPrice =
+      auction.lotSize && auction.auctionType !== "sealed"
+        ? (await this.getLotAllocation(tx, auction, auction.product.quantity))
+            .clearingPrice
+        : undefined;
+
+    return tx.auctionRoom.update({
+      where: { id: auction.id },
+      data: {
+        currentHighestBid: leader?.amount ?? null,
+        currentHighestBidderId: leader?.bidderId ?? null,
+        totalBids: bids.length,
+        totalParticipants: ranking.length,
+        isReserveReached: leader
+          ? this.isReserveMet(auction, leader.amount)
+          : false,
+        clearingPrice,
+      },
+    });
+  }
+
+  /**
+   * Take a bid out of the running auction: mark it inactive, stop the
+   * bidder's proxy, recalculate the room from the remaining bids, write
+   * the audit log and mirror the removal to the realtime room.
+   * checkBid returns an error when the caller may not remove the bid.
+   */
+  private static async deactivateBid(
+    auctionId: string,
+    bidId: string,
+    actorId: string,
+    action: "retracted" | "voided",
+    reason: string | null,
+    checkBid: (
+      auction: AuctionRoom,
+      bid: AuctionBid,
+      now: Date,
+      tx: Prisma.TransactionClient
+    ) => Promise<{ statusCode: number; error: string } | null>
+  ) {
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+
+      const auction = await tx.auctionRoom.findUnique({
+        where: { id: auctionId },
+        include: { product: { select: { title: true, quantity: true } } },
+      });
+      const bid = auction
+        ? await tx.auctionBid.findFirst({
+            where: { id: bidId, auctionRoomId: auctionId },
+          })
+        : null;
+
+      if (!auction || !bid) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Bid not found",
+        };
+      }
+
+      if (!bid.isActive) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "This bid has already been retracted or voided",
+        };
+      }
+
+      const failure = await checkBid(auction, bid, now, tx);
+      if (failure) {
+        return { success: false as const, ...failure };
+      }
+
+      const updatedBid = await tx.auctionBid.update({
+        where: { id: bid.id },
+        data:
+          action === "retracted"
+            ? { isActive: false, retractedAt: now }
+            : {
+                isActive: false,
+                voidedAt: now,
+                voidedBy: actorId,
+                voidReason: reason,
+              },
+      });
+
+      // A proxy left running would bid straight back in for the bidder
+      await tx.auctionProxyBid.updateMany({
+        where: { auctionRoomId: auctionId, bidderId: bid.bidderId },
+        data: { isActive: false },
+      });
+
+      const updatedAuction = await this.recalculateBidAggregates(
+        tx,
+        auction,
+        bid.bidderId
+      );
+
+      await tx.auctionBidAuditLog.create({
+        data: {
+          auctionRoomId: auctionId,
+          bidId: bid.id,
+          action,
+          actorId,
+          reason,
+          previousHighestBid: auction.currentHighestBid,
+          previousHighestBidderId: auction.currentHighestBidderId,
+          newHighestBid: updatedAuction.currentHighestBid,
+          newHighestBidderId: updatedAuction.currentHighestBidderId,
+        },
+      });
+
+      return {
+        success: true as const,
+        bid: updatedBid,
+        auction: updatedAuction,
+        title: auction.product.title,
+      };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    // Postgres is authoritative; a failed mirror must not undo the removal
+    try {
+      if (this.isSealedBidOpen(result.auction)) {
+        await auctionRealtime.publishBidCount(
+          auctionId,
+          result.auction.totalBids
+        );
+      } else {
+        await auctionRealtime.removeBid(auctionId, bidId, result.auction);
+      }
+    } catch (error) {
+      console.error("Failed to remove bid from realtime database:", error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Let a bidder take back a bid they placed themselves within the
+   * retraction grace window, while the auction is still running.
+   * Automatic proxy bids, buy now bids and Dutch accepts cannot be
+   * retracted, and neither can a bid that extended the soft close or
+   * set off proxy bids: retracting it would leave rivals' maximums
+   * pushed up at no cost. The bidder's proxy bid is stopped as well.
+   */
+  static async retractBid(
+    auctionId: string,
+    bidId: string,
+    bidderId: string
+  ): Promise<BidRemovalResult> {
+    const windowMs = getBidRetractionWindowMs();
+
+    const result = await this.deactivateBid(
+      auctionId,
+      bidId,
+      bidderId,
+      "retracted",
+      null,
+      async (auction, bid, now, tx) => {
+        if (bid.bidderId !== bidderId) {
+          return { statusCode: 404, error: "Bid not found" };
+        }
+        if (!this.isAuctionActiveForBidding(auction)) {
+          return {
+            statusCode: 409,
+            error: "Bids can only be retracted while the auction is running",
+          };
+        }
+        if (bid.bidType !== "regular") {
+          return {
+            statusCode: 409,
+            error: "Only bids you placed yourself can be retracted",
+          };
+        }
+        if (now.getTime() - bid.timestamp.getTime() > windowMs) {
+          return {
+            statusCode: 409,
+            error:
+              windowMs > 0
+                ? `Bids can only be retracted within ${windowMs / 1000} seconds of being placed`
+                : "Bid retraction is not available",
+          };
+        }
+        if (bid.extendedEndTime) {
+          return {
+            statusCode: 409,
+            error: "Bids that extended the auction cannot be retracted",
+          };
+        }
+        // Proxy responses are recorded in the same transaction, so they
+        // share the bid's timestamp
+        const autoBids = await tx.auctionBid.count({
+          where: {
+            auctionRoomId: auctionId,
+            bidType: "proxy",
+            timestamp: bid.timestamp,
+            isActive: true,
+          },
+        });
+        if (autoBids > 0) {
+          return {
+            statusCode: 409,
+            error: "Bids that triggered automatic bids cannot be retracted",
+          };
+        }
+        return null;
+      }
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      success: true,
+      bid: this.toBidSummary(result.bid),
+      auction: this.toBidState(result.auction),
+      message: "Bid retracted",
+    };
+  }
+
+  /**
+   * Void a fraudulent bid (admins only) while the auction is running.
+   * The room and the bidder's aggregates are recalculated from the
+   * remaining bids, the bidder's proxy is stopped and the bidder is told.
+   */
+  static async voidBid(
+    auctionId: string,
+    bidId: string,
+    adminId: string,
+    reason: string
+  ): Promise<BidRemovalResult> {
+    const trimmedReason = reason?.trim();
+    if (!trimmedReason) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "A reason is required to void a bid",
+      };
+    }
+    if (trimmedReason.length > MAX_VOID_REASON_LENGTH) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: `Reason must be at most ${MAX_VOID_REASON_LENGTH} characters`,
+      };
+    }
+
+    const result = await this.deactivateBid(
+      auctionId,
+      bidId,
+      adminId,
+      "voided",
+      trimmedReason,
+      async (auction) =>
+        auction.status !== "active"
+          ? {
+              statusCode: 409,
+              error: "Bids can only be voided while the auction is running",
+            }
+          : null
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    notifyBidVoided(
+      result.bid.bidderId,
+      auctionId,
+      result.title,
+      result.bid.amount,
+      trimmedReason
+    ).catch((error) => {
+      console.error("Failed to send bid voided notification:", error);
+    });
+
+    return {
+      success: true,
+      bid: this.toBidSummary(result.bid),
+      auction: this.toBidState(result.auction),
+      message: "Bid voided",
+    };
+  }
+
+  /**
+   * Retractions and voids recorded for a room, newest first
+   */
+  static async getBidAuditLog(auctionId: string) {
+    return prisma.auctionBidAuditLog.findMany({
+      where: { auctionRoomId: auctionId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Add an auction to the user's watchlist. Watching again is a no-op.
+   */
+  static async watchAuction(
+    auctionId: string,
+    userId: string
+  ): Promise<WatchAuctionResult> {
+    const auction = await prisma.auctionRoom.findUnique({
+      where: { id: auctionId },
+      select: { status: true, endTime: true },
+    });
+
+    if (!auction) {
+      return { success: false, statusCode: 404, error: "Auction not found" };
+    }
+
+    if (
+      !["scheduled", "active"].includes(auction.status) ||
+      auction.endTime.getTime() <= Date.now()
+    ) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "Only scheduled or running auctions can be watched",
+      };
+    }
+
+    const watch = await prisma.auctionWatch.upsert({
+      where: { auctionRoomId_userId: { auctionRoomId: auctionId, userId } },
+      create: { auctionRoomId: auctionId, userId },
+      update: {},
+    });
+
+    return { success: true, watchedAt: watch.createdAt };
+  }
+
+  /**
+   * Remove an auction from the user's watchlist
+   */
+  static async unwatchAuction(auctionId: string, userId: string) {
+    const result = await prisma.auctionWatch.deleteMany({
+      where: { auctionRoomId: auctionId, userId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Auctions the user is watching, soonest ending first
+   */
+  static async getWatchedAuctions(userId: string) {
+    const watches = await prisma.auctionWatch.findMany({
+      where: { userId },
+      include: {
+        auctionRoom: {
+          include: {
+            product: {
+              select: {
+                id: true,
+                title: true,
+                images: true,
+                category: true,
+              },
+            },
+            _count: {
+              select: {
+                bids: true,
+                participants: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { auctionRoom: { endTime: "asc" } },
+    });
+
+    const watchers = await this.countWatchers(
+      watches.map((watch) => watch.auctionRoomId)
+    );
+    return watches.map((watch) => ({
+      watchedAt: watch.createdAt,
+      auction: this.enrichAuctionWithMetrics(
+        watch.auctionRoom,
+        watchers.get(watch.auctionRoomId) ?? 0
+      ),
+    }));
+  }
+
+  /**
+   * The room's bidder eligibility rules and whether the user meets them,
+   * or null when the auction does not exist
+   */
+  static async getBidderEligibility(auctionId: string, userId: string) {
+    const auction = await prisma.auctionRoom.findUnique({
+      where: { id: auctionId },
+      include: { product: { select: { userId: true } } },
+    });
+    if (!auction) return null;
+
+    const reasons = await this.getIneligibilityReasons(prisma, auction, userId);
+    const entries = await prisma.auctionDeposit.findMany({
+      where: { auctionRoomId: auctionId, userId },
+      select: { type: true, amount: true },
+    });
+
+    return {
+      eligible: reasons.length === 0,
+      reasons,
+      rules: {
+        requireCompletedProfile: auction.requireCompletedProfile,
+        requireVerifiedWhatsapp: auction.requireVerifiedWhatsapp,
+        allowedBidderRoles: auction.allowedBidderRoles,
+        maxBidderDistanceKm: auction.maxBidderDistanceKm,
+        depositAmount: auction.depositAmount,
+      },
+      depositBalance: getDepositBalance(entries),
+    };
+  }
+
+  /**
+   * Record an earnest-money movement on a room's deposit ledger.
+   * Refunds and forfeits cannot take a bidder's balance below zero.
+   */
+  static async recordDeposit(
+    auctionId: string,
+    recordedBy: string,
+    input: DepositEntryInput
+  ): Promise<DepositResult> {
+    if (!DEPOSIT_ENTRY_TYPES.includes(input.type)) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: `Type must be one of: ${DEPOSIT_ENTRY_TYPES.join(", ")}`,
+      };
+    }
+
+    if (!Number.isFinite(input.amount) || input.amount <= 0) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "Amount must be greater than 0",
+      };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: input.userId },
+      select: { id: true },
+    });
+    if (!user) {
+      return { success: false, statusCode: 404, error: "User not found" };
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Serialises ledger writes with each other and with bids
+      const locked = await tx.$queryRaw<
+        { id: string }[]
+      >`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+      if (locked.length === 0) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Auction not found",
+        };
+      }
+
+      const entries = await tx.auctionDeposit.findMany({
+        where: { auctionRoomId: auctionId, userId: input.userId },
+        select: { type: true, amount: true },
+      });
+      const balance = getDepositBalance(entries);
+
+      if (input.type !== "deposit" && input.amount > balance) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: `Amount exceeds the bidder's deposit balance of ${balance}`,
+        };
+      }
+
+      const deposit = await tx.auctionDeposit.create({
+        data: {
+          auctionRoomId: auctionId,
+          userId: input.userId,
+          type: input.type,
+          amount: input.amount,
+          reference: input.reference,
+          note: input.note,
+          recordedBy,
+        },
+      });
+
+      return {
+        success: true as const,
+        deposit,
+        balance:
+          input.type === "deposit"
+            ? balance + input.amount
+            : balance - input.amount,
+      };
+    });
+  }
+
+  /**
+   * A room's deposit ledger with each bidder's balance, or null when the
+   * auction does not exist
+   */
+  static async getDeposits(auctionId: string) {
+    const auction = await prisma.auctionRoom.findUnique({
+      where: { id: auctionId },
+      select: { id: true, depositAmount: true },
+    });
+    if (!auction) return null;
+
+    const entries = await prisma.auctionDeposit.findMany({
+      where: { auctionRoomId: auctionId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const byUser = new Map<string, AuctionDeposit[]>();
+    for (const entry of entries) {
+      byUser.set(entry.userId, [...(byUser.get(entry.userId) ?? []), entry]);
+    }
+
+    return {
+      depositAmount: auction.depositAmount,
+      balances: [...byUser.entries()].map(([userId, userEntries]) => ({
+        userId,
+        balance: getDepositBalance(userEntries),
+      })),
+      entries,
+    };
+  }
+
+  /**
+   * Validate auction pricing and schedule settings
+   */
+  static validateAuctionSchedule(
+    settings: Required<AuctionScheduleInput>,
+    requireFutureStart: boolean,
+    isReverse = false,
+    productQuantity?: number
+  ): { isValid: boolean; message: string } {
+    const {
+      startingBid,
+      reservePrice,
+      minBidIncrement,
+      buyNowPrice,
+      startTime,
+      endTime,
+      softCloseWindowMinutes,
+      softCloseExtensionMinutes,
+      maxExtensions,
+      auctionType,
+      sealedPricing,
+      priceDropIntervalMinutes,
+      lotSize,
+      allowedBidderRoles,
+      maxBidderDistanceKm,
+      depositAmount,
+    } = settings;
+
+    if (!AUCTION_TYPES.includes(auctionType)) {
+      return {
+        isValid: false,
+        message: `Auction type must be one of: ${AUCTION_TYPES.join(", ")}`,
+      };
+    }
+
+    if (auctionType === "sealed") {
+      if (!sealedPricing || !SEALED_PRICING.includes(sealedPricing)) {
+        return {
+          isValid: false,
+          message: `Sealed pricing must be one of: ${SEALED_PRICING.join(", ")}`,
+        };
+      }
+      if (buyNowPrice !== null) {
+        return {
+          isValid: false,
+          message: "Sealed-bid auctions cannot have a buy now price",
+        };
+      }
+      if (softCloseWindowMinutes > 0) {
+        return {
+          isValid: false,
+          message: "Sealed-bid auctions cannot use soft close",
+        };
+      }
+    } else if (sealedPricing !== null) {
+      return {
+        isValid: false,
+        message: "Sealed pricing only applies to sealed-bid auctions",
+      };
+    }
+
+    if (auctionType === "dutch") {
+      if (isReverse) {
+        return {
+          isValid: false,
+          message: "Reverse auctions cannot use the Dutch format",
+        };
+      }
+      if (buyNowPrice !== null) {
+        return {
+          isValid: false,
+          message: "Dutch auctions cannot have a buy now price",
+        };
+      }
+      if (softCloseWindowMinutes > 0) {
+        return {
+          isValid: false,
+          message: "Dutch auctions cannot use soft close",
+        };
+      }
+      if (
+        priceDropIntervalMinutes === null ||
+        !Number.isInteger(priceDropIntervalMinutes) ||
+        priceDropIntervalMinutes < 1 ||
+        priceDropIntervalMinutes > MAX_PRICE_DROP_INTERVAL_MINUTES
+      ) {
+        return {
+          isValid: false,
+          message: `Price drop interval must be whole minutes between 1 and ${MAX_PRICE_DROP_INTERVAL_MINUTES}`,
+        };
+      }
+    } else if (priceDropIntervalMinutes !== null) {
+      return {
+        isValid: false,
+        message: "Price drop interval only applies to Dutch auctions",
+      };
+    }
+
+    if (lotSize !== null) {
+      if (isReverse || auctionType === "dutch") {
+        return {
+          isValid: false,
+          message: "Multi-lot selling is not available for this auction format",
+        };
+      }
+      if (buyNowPrice !== null) {
+        return {
+          isValid: false,
+          message: "Multi-lot auctions cannot have a buy now price",
+        };
+      }
+      if (
+        !Number.isInteger(lotSize) ||
+        lotSize < 1 ||
+        (productQuantity !== undefined &&
+          (lotSize > productQuantity || productQuantity % lotSize !== 0))
+      ) {
+        return {
+          isValid: false,
+          message:
+            "Lot size must be a whole number that divides the product quantity",
+        };
+      }
+    }
+
+    const roles = Object.values(UserRole) as string[];
+    if (allowedBidderRoles.some((role) => !roles.includes(role))) {
+      return {
+        isValid: false,
+        message: `Allowed bidder roles must be among: ${roles.join(", ")}`,
+      };
+    }
+
+    if (
+      maxBidderDistanceKm !== null &&
+      (!Number.isFinite(maxBidderDistanceKm) || maxBidderDistanceKm <= 0)
+    ) {
+      return {
+        isValid: false,
+        message: "Maximum bidder distance must be greater than 0 km",
+      };
+    }
+
+    if (
+      depositAmount !== null &&
+      (!Number.isFinite(depositAmount) || depositAmount <= 0)
+    ) {
+      return {
+        isValid: false,
+        message: "Deposit amount must be greater than 0",
+      };
+    }
+
+    if (!Number.isFinite(startingBid) || startingBid <= 0) {
+      return { isValid: false, message: "Starting bid must be greater than 0" };
+    }
+
+    if (!Number.isFinite(minBidIncrement) || minBidIncrement <= 0) {
+      return {
+        isValid: false,
+        message: "Minimum bid increment must be greater than 0",
+      };
+    }
+
+    if (isReverse) {
+      if (reservePrice !== null && reservePrice > startingBid) {
+        return {
+          isValid: false,
+          message:
+            "Maximum accepted price cannot be above the starting (ceiling) price",
+        };
+      }
+      if (buyNowPrice !== null) {
+        return {
+          isValid: false,
+          message: "Reverse auctions cannot have a buy now price",
+        };
+      }
+    } else if (auctionType === "dutch") {
+      if (reservePrice !== null && reservePrice >= startingBid) {
+        return {
+          isValid: false,
+          message: "Floor price must be lower than the starting price",
+        };
+      }
+    } else if (
+      reservePrice !== null &&
+      reservePrice > 0 &&
+      reservePrice < startingBid
+    ) {
+      return {
+        isValid: false,
+        message: "Reserve price cannot be lower than the starting bid",
+      };
+    }
+
+    if (buyNowPrice !== null) {
+      if (buyNowPrice <= startingBid) {
+        return {
+          isValid: false,
+          message: "Buy now price must be higher than the starting bid",
+        };
+      }
+      if (reservePrice !== null && buyNowPrice < reservePrice) {
+        return {
+          isValid: false,
+          message: "Buy now price cannot be lower than the reserve price",
+        };
+      }
+    }
+
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      return {
+        isValid: false,
+        message: "Start and end times must be valid dates",
+      };
+    }
+
+    if (
+      requireFutureStart &&
+      startTime.getTime() < Date.now() - START_TIME_GRACE_MS
+    ) {
+      return { isValid: false, message: "Start time cannot be in the past" };
+    }
+
+    const duration = endTime.getTime() - startTime.getTime();
+    if (duration < MIN_AUCTION_DURATION_MS) {
+      return {
+        isValid: false,
+        message: "Auction must run for at least 5 minutes",
+      };
+    }
+
+    if (duration > MAX_AUCTION_DURATION_MS) {
+      return {
+        isValid: false,
+        message: "Auction cannot run for more than 30 days",
+      };
+    }
+
+    const softCloseMinutes = [
+      softCloseWindowMinutes,
+      softCloseExtensionMinutes,
+    ];
+    if (
+      softCloseMinutes.some(
+        (minutes) =>
+          !Number.isInteger(minutes) ||
+          minutes < 0 ||
+          minutes > MAX_SOFT_CLOSE_MINUTES
+      )
+    ) {
+      return {
+        isValid: false,
+        message: `Soft close window and extension must be whole minutes between 0 and ${MAX_SOFT_CLOSE_MINUTES}`,
+      };
+    }
+
+    if (
+      !Number.isInteger(maxExtensions) ||
+      maxExtensions < 0 ||
+      maxExtensions > MAX_EXTENSIONS
+    ) {
+      return {
+        isValid: false,
+        message: `Maximum extensions must be a whole number between 0 and ${MAX_EXTENSIONS}`,
+      };
+    }
+
+    return { isValid: true, message: "Valid schedule" };
+  }
+
+  /**
+   * Create an auction room for a product owned by the user and move
+   * the product into the auction environment. Stock reserved by open
+   * marketplace orders cannot be auctioned, so the product must have
+   * none pending or accepted.
+   */
+  static async createAuctionRoom(
+    productId: string,
+    userId: string,
+    input: AuctionScheduleInput
+  ): Promise<AuctionRoomResult> {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, userId },
+      include: { auctionRoom: { select: { id: true } } },
+    });
+
+    if (!product) {
+      return {
+        success: false,
+        statusCode: 404,
+        error: "Product not found or you don't have permission to auction it",
+      };
+    }
+
+    if (product.auctionRoom) {
+      return {
+        success: false,
+        statusCode: 409,
+        error: "An auction already exists for this product",
+      };
+    }
+
+    if (input.startingBid === undefined || input.endTime === undefined) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "Starting bid and end time are required",
+      };
+    }
+
+    const auctionType = input.auctionType ?? "english";
+    const isSealed = auctionType === "sealed";
+    const isDutch = auctionType === "dutch";
+    const settings: Required<AuctionScheduleInput> = {
+      startingBid: input.startingBid,
+      reservePrice: input.reservePrice ?? null,
+      minBidIncrement: input.minBidIncrement ?? 50,
+      buyNowPrice: input.buyNowPrice ?? null,
+      startTime: input.startTime ?? new Date(),
+      endTime: input.endTime,
+      softCloseWindowMinutes:
+        input.softCloseWindowMinutes ?? (isSealed || isDutch ? 0 : 2),
+      softCloseExtensionMinutes: input.softCloseExtensionMinutes ?? 2,
+      maxExtensions: input.maxExtensions ?? 10,
+      auctionType,
+      sealedPricing: input.sealedPricing ?? (isSealed ? "first_price" : null),
+      priceDropIntervalMinutes:
+        input.priceDropIntervalMinutes ?? (isDutch ? 1 : null),
+      lotSize: input.lotSize ?? null,
+      requireCompletedProfile: input.requireCompletedProfile ?? false,
+      requireVerifiedWhatsapp: input.requireVerifiedWhatsapp ?? false,
+      allowedBidderRoles: input.allowedBidderRoles ?? [],
+      maxBidderDistanceKm: input.maxBidderDistanceKm ?? null,
+      depositAmount: input.depositAmount ?? null,
+    };
+
+    const validation = this.validateAuctionSchedule(
+      settings,
+      true,
+      false,
+      product.quantity
+    );
+    if (!validation.isValid) {
+      return { success: false, statusCode: 400, error: validation.message };
+    }
+
+    const result = await prisma
+      .$transaction(async (tx) => {
+        // Orders lock the product too, so none can be placed meanwhile
+        await tx.$queryRaw`SELECT id FROM products WHERE id = ${productId} FOR UPDATE`;
+
+        const openOrders = await tx.order.count({
+          where: { productId, status: { in: ["PENDING", "ACCEPTED"] } },
+        });
+        if (openOrders > 0) {
+          return {
+            success: false as const,
+            statusCode: 409,
+            error:
+              "This product has open orders; complete or cancel them before auctioning it",
+          };
+        }
+
+        const room = await tx.auctionRoom.create({
+          data: {
+            productId,
+            startingBid: settings.startingBid,
+            reservePrice: settings.reservePrice ?? undefined,
+            minBidIncrement: settings.minBidIncrement,
+            buyNowPrice: settings.buyNowPrice,
+            startTime: settings.startTime,
+            endTime: settings.endTime,
+            softCloseWindowMinutes: settings.softCloseWindowMinutes,
+            softCloseExtensionMinutes: settings.softCloseExtensionMinutes,
+            maxExtensions: settings.maxExtensions,
+            auctionType: settings.auctionType,
+            sealedPricing: settings.sealedPricing,
+            priceDropIntervalMinutes: settings.priceDropIntervalMinutes,
+            lotSize: settings.lotSize,
+            requireCompletedProfile: settings.requireCompletedProfile,
+            requireVerifiedWhatsapp: settings.requireVerifiedWhatsapp,
+            allowedBidderRoles: settings.allowedBidderRoles,
+            maxBidderDistanceKm: settings.maxBidderDistanceKm,
+            depositAmount: settings.depositAmount,
+            status: "scheduled",
+            closed: true,
+          },
+        });
+
+        await tx.product.update({
+          where: { id: productId },
+          data: { environment: "AUCTION" },
+        });
+
+        return { success: true as const, auction: room };
+      })
+      .catch((error) => {
+        // A concurrent request created the room first
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          return {
+            success: false as const,
+            statusCode: 409,
+            error: "An auction already exists for this product",
+          };
+        }
+        throw error;
+      });
+
+    if (!result.success) {
+      return result;
+    }
+    const { auction } = result;
+
+    try {
+      await auctionRealtime.initRoom(auction.id, auction);
+    } catch (error) {
+      console.error("Failed to initialise realtime auction room:", error);
+    }
+
+    return { success: true, auction };
+  }
+
+  /**
+   * Edit or reschedule an auction room.
+   * Settings lock once the first bid exists, and the start time
+   * cannot move once the auction has started.
+   */
+  static async updateAuctionRoom(
+    productId: string,
+    userId: string,
+    input: AuctionScheduleInput
+  ): Promise<AuctionRoomResult> {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, userId },
+      include: { auctionRoom: { select: { id: true } } },
+    });
+
+    if (!product || !product.auctionRoom) {
+      return {
+        success: false,
+        statusCode: 404,
+        error: "Auction not found or you don't have permission to update it",
+      };
+    }
+
+    const auctionId = product.auctionRoom.id;
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+
+      const auction = await tx.auctionRoom.findUniqueOrThrow({
+        where: { id: auctionId },
+      });
+
+      if (auction.status !== "scheduled" && auction.status !== "active") {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "Auction can no longer be edited",
+        };
+      }
+
+      const bidCount = await tx.auctionBid.count({
+        where: { auctionRoomId: auctionId },
+      });
+      if (bidCount > 0 || auction.totalBids > 0) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "Auction settings are locked once the first bid is placed",
+        };
+      }
+
+      const hasStarted = auction.status === "active";
+      if (
+        hasStarted &&
+        input.startTime !== undefined &&
+        input.startTime.getTime() !== auction.startTime.getTime()
+      ) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "Start time cannot be changed after the auction has started",
+        };
+      }
+
+      const settings: Required<AuctionScheduleInput> = {
+        startingBid: input.startingBid ?? auction.startingBid,
+        reservePrice:
+          input.reservePrice !== undefined
+            ? input.reservePrice
+            : auction.reservePrice,
+        minBidIncrement: input.minBidIncrement ?? auction.minBidIncrement,
+        buyNowPrice:
+          input.buyNowPrice !== undefined
+            ? input.buyNowPrice
+            : auction.buyNowPrice,
+        startTime: input.startTime ?? auction.startTime,
+        endTime: input.endTime ?? auction.endTime,
+        softCloseWindowMinutes:
+          input.softCloseWindowMinutes ?? auction.softCloseWindowMinutes,
+        softCloseExtensionMinutes:
+          input.softCloseExtensionMinutes ?? auction.softCloseExtensionMinutes,
+        maxExtensions: input.maxExtensions ?? auction.maxExtensions,
+        auctionType: input.auctionType ?? auction.auctionType,
+        sealedPricing:
+          input.sealedPricing !== undefined
+            ? input.sealedPricing
+            : auction.sealedPricing,
+        priceDropIntervalMinutes:
+          input.priceDropIntervalMinutes !== undefined
+            ? input.priceDropIntervalMinutes
+            : auction.priceDropIntervalMinutes,
+        lotSize: input.lotSize !== undefined ? input.lotSize : auction.lotSize,
+        requireCompletedProfile:
+          input.requireCompletedProfile ?? auction.requireCompletedProfile,
+        requireVerifiedWhatsapp:
+          input.requireVerifiedWhatsapp ?? auction.requireVerifiedWhatsapp,
+        allowedBidderRoles:
+          input.allowedBidderRoles ?? auction.allowedBidderRoles,
+        maxBidderDistanceKm:
+          input.maxBidderDistanceKm !== undefined
+            ? input.maxBidderDistanceKm
+            : auction.maxBidderDistanceKm,
+        depositAmount:
+          input.depositAmount !== undefined
+            ? input.depositAmount
+            : auction.depositAmount,
+      };
+
+      const validation = this.validateAuctionSchedule(
+        settings,
+        !hasStarted && input.startTime !== undefined,
+        auction.isReverse,
+        product.quantity
+      );
+      if (!validation.isValid) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: validation.message,
+        };
+      }
+
+      if (hasStarted && settings.endTime.getTime() <= Date.now()) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: "End time must be in the future",
+        };
+      }
+
+      const updated = await tx.auctionRoom.update({
+        where: { id: auctionId },
+        data: {
+          startingBid: settings.startingBid,
+          reservePrice: settings.reservePrice,
+          minBidIncrement: settings.minBidIncrement,
+          buyNowPrice: settings.buyNowPrice,
+          startTime: settings.startTime,
+          endTime: settings.endTime,
+          softCloseWindowMinutes: settings.softCloseWindowMinutes,
+          softCloseExtensionMinutes: settings.softCloseExtensionMinutes,
+          maxExtensions: settings.maxExtensions,
+          auctionType: settings.auctionType,
+          sealedPricing: settings.sealedPricing,
+          priceDropIntervalMinutes: settings.priceDropIntervalMinutes,
+          lotSize: settings.lotSize,
+          requireCompletedProfile: settings.requireCompletedProfile,
+          requireVerifiedWhatsapp: settings.requireVerifiedWhatsapp,
+          allowedBidderRoles: settings.allowedBidderRoles,
+          maxBidderDistanceKm: settings.maxBidderDistanceKm,
+          depositAmount: settings.depositAmount,
+        },
+      });
+
+      return { success: true as const, auction: updated };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    try {
+      await auctionRealtime.updateRoomSettings(auctionId, result.auction);
+    } catch (error) {
+      console.error("Failed to update realtime auction room:", error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Post a buyer's procurement requirement as a reverse auction.
+   * The requirement is stored as a product in the PROCUREMENT
+   * environment (never listed in the marketplace) owned by the buyer,
+   * and sellers bid the price down from startingBid.
+   */
+  static async createProcurementAuction(
+    buyerId: string,
+    requirement: ProcurementRequirementInput,
+    input: AuctionScheduleInput
+  ): Promise<AuctionRoomResult> {
+    const buyer = await prisma.user.findUnique({
+      where: { id: buyerId },
+      select: { id: true, state: true },
+    });
+
+    if (!buyer) {
+      return {
+        success: false,
+        statusCode: 404,
+        error: "User not found in database. Please complete onboarding first.",
+      };
+    }
+
+    if (input.startingBid === undefined || input.endTime === undefined) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "Starting (ceiling) price and end time are required",
+      };
+    }
+
+    const auctionType = input.auctionType ?? "english";
+    const isSealed = auctionType === "sealed";
+    const isDutch = auctionType === "dutch";
+    const settings: Required<AuctionScheduleInput> = {
+      startingBid: input.startingBid,
+      reservePrice: input.reservePrice ?? null,
+      minBidIncrement: input.minBidIncrement ?? 50,
+      buyNowPrice: input.buyNowPrice ?? null,
+      startTime: input.startTime ?? new Date(),
+      endTime: input.endTime,
+      softCloseWindowMinutes:
+        input.softCloseWindowMinutes ?? (isSealed || isDutch ? 0 : 2),
+      softCloseExtensionMinutes: input.softCloseExtensionMinutes ?? 2,
+      maxExtensions: input.maxExtensions ?? 10,
+      auctionType,
+      sealedPricing: input.sealedPricing ?? (isSealed ? "first_price" : null),
+      priceDropIntervalMinutes:
+        input.priceDropIntervalMinutes ?? (isDutch ? 1 : null),
+      lotSize: input.lotSize ?? null,
+      requireCompletedProfile: input.requireCompletedProfile ?? false,
+      requireVerifiedWhatsapp: input.requireVerifiedWhatsapp ?? false,
+      allowedBidderRoles: input.allowedBidderRoles ?? [],
+      maxBidderDistanceKm: input.maxBidderDistanceKm ?? null,
+      depositAmount: input.depositAmount ?? null,
+    };
+
+    const validation = this.validateAuctionSchedule(settings, true, true);
+    if (!validation.isValid) {
+      return { success: false, statusCode: 400, error: validation.message };
+    }
+
+    const auction = await prisma.$transaction(async (tx) => {
+      const lastProduct = await tx.product.findFirst({
+        orderBy: { serialNumber: "desc" },
+      });
+      const serialNumber = lastProduct ? lastProduct.serialNumber + 1 : 10000;
+
+      const product = await tx.product.create({
+        data: {
+          userId: buyerId,
+          serialNumber,
+          category: requirement.commodity,
+          title:
+            requirement.title ||
+            `${requirement.commodity} required in ${requirement.deliveryCity}`,
+          description: requirement.description || "",
+          quantity: requirement.quantity,
+          unit: requirement.unit,
+          images: [],
+          grade: requirement.grade,
+          variety: requirement.variety,
+          city: requirement.deliveryCity,
+          state: requirement.deliveryState ?? buyer.state,
+          priceType: "AUCTION_BASED",
+          status: "ACTIVE",
+          environment: "PROCUREMENT",
+        },
+      });
+
+      return tx.auctionRoom.create({
+        data: {
+          productId: product.id,
+          isReverse: true,
+          startingBid: settings.startingBid,
+          reservePrice: settings.reservePrice ?? undefined,
+          minBidIncrement: settings.minBidIncrement,
+          startTime: settings.startTime,
+          endTime: settings.endTime,
+          softCloseWindowMinutes: settings.softCloseWindowMinutes,
+          softCloseExtensionMinutes: settings.softCloseExtensionMinutes,
+          maxExtensions: settings.maxExtensions,
+          auctionType: settings.auctionType,
+          sealedPricing: settings.sealedPricing,
+          priceDropIntervalMinutes: settings.priceDropIntervalMinutes,
+          requireCompletedProfile: settings.requireCompletedProfile,
+          requireVerifiedWhatsapp: settings.requireVerifiedWhatsapp,
+          allowedBidderRoles: settings.allowedBidderRoles,
+          maxBidderDistanceKm: settings.maxBidderDistanceKm,
+          depositAmount: settings.depositAmount,
+          status: "scheduled",
+          closed: true,
+        },
+      });
+    });
+
+    try {
+      await auctionRealtime.initRoom(auction.id, auction);
+    } catch (error) {
+      console.error("Failed to initialise realtime auction room:", error);
+    }
+
+    return { success: true, auction };
+  }
+
+  /**
+   * Cancel a scheduled or running auction.
+   * The product owner can cancel until the first bid lands; after that
+   * only admins can, so bidders are protected from sellers walking away
+   * from a price they dislike. Participants are notified, the realtime
+   * room is frozen and the product returns to the marketplace.
+   */
+  static async cancelAuction(
+    auctionId: string,
+    userId: string,
+    isAdmin: boolean,
+    input: CancelAuctionInput
+  ): Promise<AuctionRoomResult> {
+    if (!CANCELLATION_REASONS.includes(input.reason)) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: `Reason must be one of: ${CANCELLATION_REASONS.join(", ")}`,
+      };
+    }
+
+    if (input.reason === "other" && !input.note?.trim()) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "A note is required when the reason is other",
+      };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+
+      const auction = await tx.auctionRoom.findUnique({
+        where: { id: auctionId },
+        include: {
+          product: { select: { title: true, userId: true } },
+          participants: { select: { userId: true } },
+        },
+      });
+
+      if (!auction || (!isAdmin && auction.product.userId !== userId)) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Auction not found or you don't have permission to cancel it",
+        };
+      }
+
+      if (
+        (auction.status !== "scheduled" && auction.status !== "active") ||
+        auction.endTime.getTime() <= Date.now()
+      ) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "Only scheduled or running auctions can be cancelled",
+        };
+      }
+
+      const bidCount = await tx.auctionBid.count({
+        where: { auctionRoomId: auctionId },
+      });
+      if (!isAdmin && (bidCount > 0 || auction.totalBids > 0)) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: "Auctions with bids can only be cancelled by an administrator",
+        };
+      }
+
+      const cancelled = await tx.auctionRoom.update({
+        where: { id: auctionId },
+        data: {
+          status: "cancelled",
+          closed: true,
+          cancelledAt: new Date(),
+          cancelledBy: userId,
+          cancellationReason: input.reason,
+          cancellationNote: input.note?.trim() || null,
+        },
+      });
+
+      await tx.auctionProxyBid.updateMany({
+        where: { auctionRoomId: auctionId, isActive: true },
+        data: { isActive: false },
+      });
+
+      return { success: true as const, auction: cancelled, room: auction };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    try {
+      await auctionRealtime.setRoomStatus(auctionId, "cancelled", true);
+    } catch (error) {
+      console.error("Failed to freeze realtime auction room:", error);
+    }
+
+    try {
+      await auctionJobs.transferAuctionProductEnvironment(result.auction);
+    } catch (error) {
+      console.error("Failed to return cancelled auction product:", error);
+    }
+
+    await notifyAuctionCancelled(result.room, input.reason, userId);
+
+    return { success: true, auction: result.auction };
+  }
+
+  /**
+   * Settlements of a sold auction: all of them for the seller and
+   * admins, only their own for a winner. Null when the caller has none.
+   */
+  static async getSettlements(
+    auctionId: string,
+    userId: string,
+    isAdmin: boolean
+  ) {
+    const settlements = await prisma.auctionSettlement.findMany({
+      where: { auctionRoomId: auctionId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const visible =
+      isAdmin || settlements.some((s) => s.sellerId === userId)
+        ? settlements
+        : settlements.filter((s) => s.winnerId === userId);
+
+    return visible.length ? visible : null;
+  }
+
+  /**
+   * Find the settlement a party acts on: a winner's own, or for the
+   * seller the one with winnerId (which may be omitted when the auction
+   * has a single winner)
+   */
+  private static async findPartySettlement(
+    tx: Prisma.TransactionClient,
+    auctionId: string,
+    userId: string,
+    winnerId?: string
+  ): Promise<SettlementResult> {
+    const settlements = await tx.auctionSettlement.findMany({
+      where: { auctionRoomId: auctionId },
+    });
+
+    const own = settlements.find((s) => s.winnerId === userId);
+    if (own) {
+      return { success: true, settlement: own };
+    }
+
+    const sellerSettlements = settlements.filter((s) => s.sellerId === userId);
+    if (sellerSettlements.length === 0) {
+      return { success: false, statusCode: 404, error: "Settlement not found" };
+    }
+
+    if (!winnerId && sellerSettlements.length > 1) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "This auction has several winners, specify winnerId",
+      };
+    }
+
+    const settlement = winnerId
+      ? sellerSettlements.find((s) => s.winnerId === winnerId)
+      : sellerSettlements[0];
+    if (!settlement) {
+      return { success: false, statusCode: 404, error: "Settlement not found" };
+    }
+
+    return { success: true, settlement };
+  }
+
+  /**
+   * Confirm the deal as seller or winner. The settlement becomes
+   * "confirmed" once both sides have confirmed; confirming twice is a no-op.
+   */
+  static async confirmSettlement(
+    auctionId: string,
+    userId: string,
+    winnerId?: string
+  ): Promise<SettlementResult> {
+    return prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_settlements WHERE "auctionRoomId" = ${auctionId} FOR UPDATE`;
+
+      const found = await this.findPartySettlement(
+        tx,
+        auctionId,
+        userId,
+        winnerId
+      );
+      if (!found.success) {
+        return found;
+      }
+
+      const { settlement } = found;
+      const isSeller = settlement.winnerId !== userId;
+      const alreadyConfirmed = isSeller
+        ? settlement.sellerConfirmedAt
+        : settlement.winnerConfirmedAt;
+      if (alreadyConfirmed) {
+        return { success: true as const, settlement };
+      }
+
+      if (settlement.status !== "pending") {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: `Settlement is already ${settlement.status}`,
+        };
+      }
+
+      const now = new Date();
+      const otherConfirmed = isSeller
+        ? settlement.winnerConfirmedAt
+        : settlement.sellerConfirmedAt;
+
+      const updated = await tx.auctionSettlement.update({
+        where: { id: settlement.id },
+        data: {
+          ...(isSeller
+            ? { sellerConfirmedAt: now }
+            : { winnerConfirmedAt: now }),
+          status: otherConfirmed ? "confirmed" : "pending",
+        },
+      });
+
+      return { success: true as const, settlement: updated };
+    });
+  }
+
+  /**
+   * Dispute a pending settlement as seller or winner. The other side is
+   * told, and the settlement stays "disputed" for an admin to resolve.
+   */
+  static async disputeSettlement(
+    auctionId: string,
+    userId: string,
+    reason: string,
+    winnerId?: string
+  ): Promise<SettlementResult> {
+    const trimmedReason = reason.trim();
+    if (!trimmedReason) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "A dispute reason is required",
+      };
+    }
+
+    if (trimmedReason.length > MAX_DISPUTE_REASON_LENGTH) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: `Dispute reason must be at most ${MAX_DISPUTE_REASON_LENGTH} characters`,
+      };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_settlements WHERE "auctionRoomId" = ${auctionId} FOR UPDATE`;
+
+      const found = await this.findPartySettlement(
+        tx,
+        auctionId,
+        userId,
+        winnerId
+      );
+      if (!found.success) {
+        return found;
+      }
+
+      const { settlement } = found;
+      if (settlement.status !== "pending") {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: `Settlement is already ${settlement.status}`,
+        };
+      }
+
+      const updated = await tx.auctionSettlement.update({
+        where: { id: settlement.id },
+        data: {
+          status: "disputed",
+          disputedBy: userId,
+          disputedAt: new Date(),
+          disputeReason: trimmedReason,
+        },
+      });
+
+      return { success: true as const, settlement: updated };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    const { settlement } = result;
+    const product = await prisma.product.findFirst({
+      where: { auctionRoom: { id: auctionId } },
+      select: { title: true },
+    });
+    await notifySettlementDisputed(
+      settlement.winnerId === userId
+        ? settlement.sellerId
+        : settlement.winnerId,
+      auctionId,
+      product?.title ?? "your auction",
+      trimmedReason
+    );
+
+    return { success: true, settlement };
+  }
+
+  /**
+   * Best bid of each distinct bidder, best first. Ties go to the
+   * earlier bid, as they do while bidding.
+   */
+  private static rankBidders(auction: AuctionRoom, bids: AuctionBid[]) {
+    const bestByBidder = new Map<string, AuctionBid>();
+    for (const bid of bids) {
+      const best = bestByBidder.get(bid.bidderId);
+      if (
+        !best ||
+        this.isBetterBid(auction, bid.amount, best.amount) ||
+        (bid.amount === best.amount && bid.timestamp < best.timestamp)
+      ) {
+        bestByBidder.set(bid.bidderId, bid);
+      }
+    }
+
+    return [...bestByBidder.values()].sort((a, b) =>
+      a.amount === b.amount
+        ? a.timestamp.getTime() - b.timestamp.getTime()
+        : this.isBetterBid(auction, a.amount, b.amount)
+          ? -1
+          : 1
+    );
+  }
+
+  /**
+   * Whether the current winner has backed out, so the lot may be offered
+   * to the next bidder: their settlement is disputed, or they did not
+   * confirm it within the confirmation window after being notified.
+   * failure is set when the sale is settled or still with the winner.
+   */
+  private static getSecondChanceState(
+    auction: AuctionRoom,
+    settlements: Pick<
+      AuctionSettlement,
+      "status" | "winnerId" | "winnerConfirmedAt"
+    >[],
+    offers: AuctionSecondChanceOffer[],
+    now: Date
+  ) {
+    // The current winner won at close or by accepting an earlier offer
+    const winnerSince =
+      offers.find(
+        (offer) =>
+          offer.status === "accepted" && offer.bidderId === auction.winnerId
+      )?.respondedAt ?? auction.endTime;
+    const settlement = settlements.find((s) => s.winnerId === auction.winnerId);
+    const disputed = settlement?.status === "disputed";
+    const confirmBy = new Date(
+      (auction.winnerNotifiedAt ?? winnerSince).getTime() +
+        getWinnerConfirmationWindowMs()
+    );
+
+    let failure: { statusCode: number; error: string } | null = null;
+    if (settlements.some((s) => s.status === "confirmed")) {
+      failure = { statusCode: 400, error: "The sale has already been settled" };
+    } else if (settlement?.winnerConfirmedAt) {
+      failure = { statusCode: 409, error: "The winner has confirmed the sale" };
+    } else if (!disputed && confirmBy > now) {
+      failure = {
+        statusCode: 409,
+        error: `The winner has until ${confirmBy.toISOString()} to confirm the sale`,
+      };
+    }
+
+    return { winnerSince, disputed, failure };
+  }
+
+  /**
+   * Offer a sold lot whose winner backed out to the next best distinct
+   * bidder, at that bidder's own best bid. Bidders ranked above the
+   * current winner or already offered the lot are skipped, so repeated
+   * offers walk down the ranking. One offer can be pending at a time.
+   * The winner backed out when the settlement is disputed or they did
+   * not confirm it in time; once they confirm, the lot is theirs. The
+   * winner is told when the first offer goes out past them.
+   */
+  static async createSecondChanceOffer(
+    auctionId: string,
+    sellerId: string,
+    expiresInHours: number = DEFAULT_SECOND_CHANCE_HOURS
+  ): Promise<SecondChanceOfferResult> {
+    if (
+      !Number.isFinite(expiresInHours) ||
+      expiresInHours <= 0 ||
+      expiresInHours > MAX_SECOND_CHANCE_HOURS
+    ) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: `Offer duration must be between 1 and ${MAX_SECOND_CHANCE_HOURS} hours`,
+      };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+      // Settlement confirmations and disputes lock these rows
+      await tx.$queryRaw`SELECT id FROM auction_settlements WHERE "auctionRoomId" = ${auctionId} FOR UPDATE`;
+
+      const auction = await tx.auctionRoom.findUnique({
+        where: { id: auctionId },
+        include: {
+          product: { select: { title: true, userId: true } },
+          settlements: {
+            select: { status: true, winnerId: true, winnerConfirmedAt: true },
+          },
+          secondChanceOffers: true,
+        },
+      });
+
+      if (!auction || auction.product.userId !== sellerId) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Auction not found or you don't have permission to manage it",
+        };
+      }
+
+      if (
+        !["ended", "winner_notified"].includes(auction.status) ||
+        auction.outcome !== "sold" ||
+        !auction.winnerId
+      ) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: "Second-chance offers are only available for sold auctions",
+        };
+      }
+
+      if (auction.lotSize) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error:
+            "Second-chance offers are not available for multi-lot auctions",
+        };
+      }
+
+      const now = new Date();
+      const { winnerSince, disputed, failure } = this.getSecondChanceState(
+        auction,
+        auction.settlements,
+        auction.secondChanceOffers,
+        now
+      );
+      if (failure) {
+        return { success: false as const, ...failure };
+      }
+
+      const pending = auction.secondChanceOffers.find(
+        (offer) => offer.status === "pending"
+      );
+      if (pending && pending.expiresAt > now) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "A second-chance offer is already pending",
+        };
+      }
+      if (pending) {
+        await tx.auctionSecondChanceOffer.update({
+          where: { id: pending.id },
+          data: { status: "expired" },
+        });
+      }
+
+      const bids = await tx.auctionBid.findMany({
+        where: { auctionRoomId: auctionId, isActive: true },
+      });
+      const ranking = this.rankBidders(auction, bids);
+      const considered = new Set([
+        auction.winnerId,
+        ...auction.secondChanceOffers.map((offer) => offer.bidderId),
+      ]);
+      const lastConsidered = ranking.reduce(
+        (last, bid, index) => (considered.has(bid.bidderId) ? index : last),
+        -1
+      );
+      const runnerUp = ranking[lastConsidered + 1];
+
+      if (!runnerUp) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: "There is no other bidder to make an offer to",
+        };
+      }
+
+      const offer = await tx.auctionSecondChanceOffer.create({
+        data: {
+          auctionRoomId: auctionId,
+          bidderId: runnerUp.bidderId,
+          bidId: runnerUp.id,
+          amount: runnerUp.amount,
+          expiresAt: new Date(now.getTime() + expiresInHours * 60 * 60 * 1000),
+        },
+      });
+
+      return {
+        success: true as const,
+        offer,
+        title: auction.product.title,
+        // Only the first offer past this winner tells them
+        displacedWinnerId: auction.secondChanceOffers.some(
+          (earlier) => earlier.createdAt > winnerSince
+        )
+          ? null
+          : auction.winnerId,
+        disputed,
+      };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    const { offer } = result;
+    await notifySecondChanceOffer(
+      offer.bidderId,
+      auctionId,
+      result.title,
+      offer.amount,
+      offer.expiresAt
+    );
+    if (result.displacedWinnerId) {
+      await notifySecondChanceWinnerReplaced(
+        result.displacedWinnerId,
+        auctionId,
+        result.title,
+        result.disputed
+      );
+    }
+
+    return { success: true, offer };
+  }
+
+  /**
+   * Accept or decline the caller's pending second-chance offer.
+   * Accepting makes them the winner at the offered amount: the winning
+   * bid and participant flags move to them and the settlement restarts
+   * between the seller and the new winner. The offer is voided instead
+   * when the current winner no longer counts as backed out.
+   */
+  static async respondToSecondChanceOffer(
+    auctionId: string,
+    bidderId: string,
+    accept: boolean
+  ): Promise<SecondChanceOfferResult> {
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM auction_rooms WHERE id = ${auctionId} FOR UPDATE`;
+      // Settlement confirmations and disputes lock these rows
+      await tx.$queryRaw`SELECT id FROM auction_settlements WHERE "auctionRoomId" = ${auctionId} FOR UPDATE`;
+
+      const offer = await tx.auctionSecondChanceOffer.findFirst({
+        where: { auctionRoomId: auctionId, bidderId, status: "pending" },
+        include: {
+          auctionRoom: {
+            include: {
+              product: {
+                select: {
+                  title: true,
+                  userId: true,
+                  quantity: true,
+                  unit: true,
+                },
+              },
+              settlements: {
+                select: {
+                  status: true,
+                  winnerId: true,
+                  winnerConfirmedAt: true,
+                },
+              },
+              secondChanceOffers: true,
+            },
+          },
+        },
+      });
+
+      if (!offer) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "No pending second-chance offer found for this auction",
+        };
+      }
+
+      const now = new Date();
+      if (offer.expiresAt <= now) {
+        await tx.auctionSecondChanceOffer.update({
+          where: { id: offer.id },
+          data: { status: "expired" },
+        });
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: "This offer has expired",
+        };
+      }
+
+      // The winner may have confirmed, or the dispute been resolved,
+      // while the offer was open
+      const { failure } = this.getSecondChanceState(
+        offer.auctionRoom,
+        offer.auctionRoom.settlements,
+        offer.auctionRoom.secondChanceOffers,
+        now
+      );
+      if (accept && failure) {
+        await tx.auctionSecondChanceOffer.update({
+          where: { id: offer.id },
+          data: { status: "void", respondedAt: now },
+        });
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: `This offer is no longer valid: ${failure.error}`,
+        };
+      }
+
+      const { auctionRoom: auction, ...offerFields } = offer;
+      const updated = await tx.auctionSecondChanceOffer.update({
+        where: { id: offerFields.id },
+        data: { status: accept ? "accepted" : "declined", respondedAt: now },
+      });
+
+      if (accept) {
+        await tx.auctionBid.updateMany({
+          where: { auctionRoomId: auctionId, isWinningBid: true },
+          data: { isWinningBid: false },
+        });
+        await tx.auctionBid.update({
+          where: { id: offer.bidId },
+          data: { isWinningBid: true },
+        });
+        await tx.auctionParticipant.updateMany({
+          where: { auctionRoomId: auctionId, isWinner: true },
+          data: { isWinner: false },
+        });
+        await tx.auctionParticipant.updateMany({
+          where: { auctionRoomId: auctionId, userId: bidderId },
+          data: { isWinner: true },
+        });
+        await tx.auctionRoom.update({
+          where: { id: auctionId },
+          data: {
+            winnerId: bidderId,
+            finalPrice: offer.amount,
+            winnerNotifiedAt: null,
+          },
+        });
+
+        const settlement = {
+          winnerId: bidderId,
+          finalPrice: offer.amount,
+          status: "pending",
+          sellerConfirmedAt: null,
+          winnerConfirmedAt: null,
+          disputedBy: null,
+          disputedAt: null,
+          disputeReason: null,
+          winnerNotifiedAt: null,
+        };
+        // Single-lot rooms have at most one settlement, which moves to
+        // the new winner
+        const moved = await tx.auctionSettlement.updateMany({
+          where: { auctionRoomId: auctionId },
+          data: settlement,
+        });
+        if (moved.count === 0) {
+          await tx.auctionSettlement.create({
+            data: {
+              auctionRoomId: auctionId,
+              sellerId: auction.product.userId,
+              quantity: auction.product.quantity,
+              unit: auction.product.unit,
+              ...settlement,
+            },
+          });
+        }
+      }
+
+      return { success: true as const, offer: updated, auction };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    const { offer, auction } = result;
+    if (!accept) {
+      await notifySecondChanceClosed(
+        auction.product.userId,
+        auctionId,
+        auction.product.title,
+        "declined"
+      );
+      return { success: true, offer };
+    }
+
+    const winnerNotified = await notifyAuctionWinner(
+      auctionId,
+      bidderId,
+      auction.product.title,
+      offer.amount
+    );
+    if (winnerNotified.success) {
+      await prisma.auctionRoom.update({
+        where: { id: auctionId },
+        data: { winnerNotifiedAt: new Date() },
+      });
+    }
+    await notifySellerAuctionSold(
+      auction.product.userId,
+      auctionId,
+      auction.product.title,
+      bidderId,
+      offer.amount,
+      auction.isReverse
+    );
+
+    return { success: true, offer };
+  }
+
+  /**
+   * Second-chance offers of an auction. The seller and admins see all
+   * of them; a bidder only sees offers made to them.
+   */
+  static async getSecondChanceOffers(
+    auctionId: string,
+    userId: string,
+    isAdmin: boolean
+  ) {
+    const auction = await prisma.auctionRoom.findUnique({
+      where: { id: auctionId },
+      select: { product: { select: { userId: true } } },
+    });
+
+    if (!auction) {
+      return null;
+    }
+
+    const canSeeAll = isAdmin || auction.product.userId === userId;
+    return prisma.auctionSecondChanceOffer.findMany({
+      where: {
+        auctionRoomId: auctionId,
+        ...(canSeeAll ? {} : { bidderId: userId }),
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
 }
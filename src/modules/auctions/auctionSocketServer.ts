@@ -0,0 +1,257 @@
+import { randomUUID } from "crypto";
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import WebSocket, { WebSocketServer } from "ws";
+import admin from "../../firebase";
+import prisma from "../../prisma";
+import { AuctionService } from "./auctionService";
+import { getAuctionRealtimeGateway } from "./auctionRealtime";
+import { WebSocketRealtimeGateway } from "./webSocketRealtimeGateway";
+
+/**
+ * WebSocket endpoint for live auction rooms (transport "websocket").
+ *
+ * Clients connect to `/ws/auctions?token=<Firebase ID token>` (or send
+ * the token as a Bearer Authorization header) and then send JSON:
+ * - { type: "join", auctionId }  join a room, replacing any current room
+ * - { type: "heartbeat" }        keep the session and presence alive
+ * - { type: "leave" }            leave the current room
+ *
+ * The server answers with "joined", "left", "heartbeat:ack" and "error"
+ * messages, and relays room events from the gateway ("room:snapshot",
+ * "bid", "bid:count", "room:settings", "room:status", "presence", ...).
+ * Bid events carry endTime and extensionCount, so soft-close extensions
+ * arrive with the bid that caused them.
+ */
+
+const SOCKET_PATH = "/ws/auctions";
+// Sockets that miss a protocol-level ping are terminated
+const PING_INTERVAL_MS = 30 * 1000;
+
+interface SocketSession {
+  connectionId: string;
+  userId: string;
+  auctionId: string | null;
+  isAlive: boolean;
+}
+
+const send = (socket: WebSocket, type: string, payload: unknown = null) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ type, payload }));
+  }
+};
+
+const rejectUpgrade = (socket: Duplex, status: string) => {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+const getToken = (req: IncomingMessage, url: URL) => {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.replace("Bearer ", "").trim();
+  }
+  return url.searchParams.get("token");
+};
+
+/**
+ * Rebuild a room's state in the gateway after a restart, since the
+ * WebSocket gateway only keeps rooms in process memory
+ */
+const hydrateRoom = async (
+  gateway: WebSocketRealtimeGateway,
+  auctionId: string
+) => {
+  if (await gateway.getRoom(auctionId)) return;
+
+  const auction = await prisma.auctionRoom.findUniqueOrThrow({
+    where: { id: auctionId },
+    include: {
+      bids: { where: { isActive: true }, orderBy: { timestamp: "asc" } },
+    },
+  });
+
+  await gateway.initRoom(auctionId, auction);
+  if (!AuctionService.isSealedBidOpen(auction)) {
+    await gateway.syncRoomState(
+      auctionId,
+      auction.bids.map((bid) => ({
+        id: bid.id,
+        amount: bid.amount,
+        bidderId: bid.bidderId,
+        userName: bid.bidderName,
+        timestamp: bid.timestamp,
+        quantity: bid.quantity,
+      })),
+      auction
+    );
+  } else {
+    await gateway.publishBidCount(auctionId, auction.totalBids);
+  }
+};
+
+const leaveCurrentRoom = async (
+  gateway: WebSocketRealtimeGateway,
+  session: SocketSession
+) => {
+  const { auctionId } = session;
+  if (!auctionId) return;
+
+  session.auctionId = null;
+  await gateway.leaveRoom(auctionId, session.connectionId);
+
+  // The user may still be watching from another tab or device
+  const otherSessions = await prisma.webSocketConnection.count({
+    where: {
+      auctionRoomId: auctionId,
+      userId: session.userId,
+      expiresAt: { gte: new Date() },
+    },
+  });
+  if (otherSessions === 0) {
+    await AuctionService.markPresence(auctionId, session.userId, false);
+  }
+};
+
+const handleMessage = async (
+  gateway: WebSocketRealtimeGateway,
+  socket: WebSocket,
+  session: SocketSession,
+  raw: WebSocket.RawData
+) => {
+  let message: any;
+  try {
+    message = JSON.parse(raw.toString());
+  } catch {
+    return send(socket, "error", { message: "Messages must be JSON" });
+  }
+
+  switch (message?.type) {
+    case "join": {
+      const auctionId = String(message.auctionId || "");
+      const auction = auctionId
+        ? await prisma.auctionRoom.findUnique({
+            where: { id: auctionId },
+            select: { id: true },
+          })
+        : null;
+      if (!auction) {
+        return send(socket, "error", { message: "Auction not found" });
+      }
+
+      if (session.auctionId !== auctionId) {
+        await leaveCurrentRoom(gateway, session);
+      }
+      await hydrateRoom(gateway, auctionId);
+      session.auctionId = auctionId;
+      await gateway.joinRoom(
+        auctionId,
+        session.connectionId,
+        socket,
+        session.userId
+      );
+      await AuctionService.markPresence(auctionId, session.userId, true);
+      return send(socket, "joined", { auctionId });
+    }
+
+    case "heartbeat": {
+      if (!session.auctionId) {
+        return send(socket, "error", { message: "Join a room first" });
+      }
+      await gateway.touchConnection(session.connectionId);
+      await AuctionService.markPresence(
+        session.auctionId,
+        session.userId,
+        true
+      );
+      return send(socket, "heartbeat:ack", { at: new Date().toISOString() });
+    }
+
+    case "leave": {
+      const auctionId = session.auctionId;
+      await leaveCurrentRoom(gateway, session);
+      return send(socket, "left", { auctionId });
+    }
+
+    default:
+      return send(socket, "error", { message: "Unknown message type" });
+  }
+};
+
+/**
+ * Attach the auction room WebSocket endpoint to the HTTP server.
+ * Only runs when the WebSocket realtime transport is active.
+ */
+export const attachAuctionSocketServer = (server: Server) => {
+  const gateway = getAuctionRealtimeGateway();
+  if (!(gateway instanceof WebSocketRealtimeGateway)) {
+    return null;
+  }
+
+  const wss = new WebSocketServer({ noServer: true });
+  const sessions = new Map<WebSocket, SocketSession>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    if (url.pathname !== SOCKET_PATH) {
+      return rejectUpgrade(socket, "404 Not Found");
+    }
+
+    const token = getToken(req, url);
+    if (!token) {
+      return rejectUpgrade(socket, "401 Unauthorized");
+    }
+
+    try {
+      const decodedToken = await admin.auth().verifyIdToken(token);
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit("connection", ws, req, decodedToken.uid);
+      });
+    } catch {
+      rejectUpgrade(socket, "401 Unauthorized");
+    }
+  });
+
+  wss.on("connection", (ws: WebSocket, _req: IncomingMessage, uid: string) => {
+    const session: SocketSession = {
+      connectionId: randomUUID(),
+      userId: uid,
+      auctionId: null,
+      isAlive: true,
+    };
+    sessions.set(ws, session);
+
+    ws.on("pong", () => {
+      session.isAlive = true;
+    });
+
+    ws.on("message", (raw) => {
+      handleMessage(gateway, ws, session, raw).catch((error) => {
+        console.error("Error handling auction socket message:", error);
+        send(ws, "error", { message: "Failed to process message" });
+      });
+    });
+
+    ws.on("close", () => {
+      sessions.delete(ws);
+      leaveCurrentRoom(gateway, session).catch((error) => {
+        console.error("Error closing auction socket session:", error);
+      });
+    });
+  });
+
+  const pingInterval = setInterval(() => {
+    for (const [ws, session] of sessions) {
+      if (!session.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      session.isAlive = false;
+      ws.ping();
+    }
+  }, PING_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(pingInterval));
+
+  return wss;
+};
@@ -0,0 +1,131 @@
+import { UserRole } from "@prisma/client";
+
+/**
+ * Bidder eligibility rules for auction rooms.
+ *
+ * A room can require bidders to have completed their profile, to have a
+ * verified WhatsApp number, to hold one of a set of roles, to be within
+ * a straight-line distance of the seller, and to hold an earnest-money
+ * deposit on the room's ledger (AuctionDeposit). Rules left unset let
+ * everyone bid. The rules are checked every time a bid is placed.
+ */
+
+export interface EligibilityRules {
+  requireCompletedProfile: boolean;
+  requireVerifiedWhatsapp: boolean;
+  allowedBidderRoles: UserRole[];
+  maxBidderDistanceKm: number | null;
+  depositAmount: number | null;
+}
+
+export interface BidderProfile {
+  profileCompleted: boolean;
+  whatsappVerified: boolean;
+  role: UserRole | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface Location {
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export const DEPOSIT_ENTRY_TYPES = ["deposit", "refund", "forfeit"];
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points, or null when either point
+ * has no coordinates
+ */
+export const distanceKm = (from: Location, to: Location): number | null => {
+  if (
+    from.latitude === null ||
+    from.longitude === null ||
+    to.latitude === null ||
+    to.longitude === null
+  ) {
+    return null;
+  }
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Balance of a bidder's ledger entries: deposits minus refunds and
+ * forfeits
+ */
+export const getDepositBalance = (
+  entries: { type: string; amount: number }[]
+): number =>
+  entries.reduce(
+    (balance, entry) =>
+      entry.type === "deposit"
+        ? balance + entry.amount
+        : balance - entry.amount,
+    0
+  );
+
+/**
+ * Reasons a bidder may not bid in a room; empty when they may
+ */
+export const getEligibilityFailures = (
+  rules: EligibilityRules,
+  bidder: BidderProfile,
+  sellerLocation: Location | null,
+  depositBalance: number
+): string[] => {
+  const failures: string[] = [];
+
+  if (rules.requireCompletedProfile && !bidder.profileCompleted) {
+    failures.push("Complete your profile to bid in this auction");
+  }
+
+  if (rules.requireVerifiedWhatsapp && !bidder.whatsappVerified) {
+    failures.push("Verify your WhatsApp number to bid in this auction");
+  }
+
+  if (
+    rules.allowedBidderRoles.length > 0 &&
+    (!bidder.role || !rules.allowedBidderRoles.includes(bidder.role))
+  ) {
+    failures.push(
+      `This auction is open to ${rules.allowedBidderRoles.join(", ")} accounts only`
+    );
+  }
+
+  if (rules.maxBidderDistanceKm !== null) {
+    const distance = sellerLocation ? distanceKm(bidder, sellerLocation) : null;
+    if (bidder.latitude === null || bidder.longitude === null) {
+      failures.push(
+        "Your location is needed to check the distance limit of this auction"
+      );
+    } else if (distance === null) {
+      failures.push(
+        "The seller's location is not set, so the distance limit cannot be checked"
+      );
+    } else if (distance > rules.maxBidderDistanceKm) {
+      failures.push(
+        `This auction only accepts bidders within ${rules.maxBidderDistanceKm} km of the seller`
+      );
+    }
+  }
+
+  if (rules.depositAmount && depositBalance < rules.depositAmount) {
+    failures.push(
+      `An earnest-money deposit of ₹${rules.depositAmount.toLocaleString()} is required to bid`
+    );
+  }
+
+  return failures;
+};
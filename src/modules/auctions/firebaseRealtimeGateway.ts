@@ -0,0 +1,98 @@
+import firebaseAdmin from "../../firebase";
+import {
+  AuctionRealtimeGateway,
+  RealtimeBid,
+  RealtimePresence,
+  RealtimeRoomCounters,
+  RealtimeRoomSettings,
+  serializeBid,
+  serializePresence,
+  serializeSettings,
+} from "./auctionRealtimeGateway";
+
+/**
+ * Mirrors auction rooms into Firebase Realtime Database under
+ * `aarath/auctions/{auctionId}`, where the app subscribes to them
+ */
+export class FirebaseRealtimeGateway implements AuctionRealtimeGateway {
+  private auctionRef(auctionId: string) {
+    return firebaseAdmin.database().ref(`aarath/auctions/${auctionId}`);
+  }
+
+  async initRoom(auctionId: string, room: RealtimeRoomSettings) {
+    await this.auctionRef(auctionId).set({
+      ...serializeSettings(room),
+      currentHighestBid: null,
+      currentHighestBidderId: null,
+      totalBids: 0,
+    });
+  }
+
+  async updateRoomSettings(auctionId: string, room: RealtimeRoomSettings) {
+    await this.auctionRef(auctionId).update(serializeSettings(room));
+  }
+
+  async setRoomStatus(auctionId: string, status: string, closed: boolean) {
+    await this.auctionRef(auctionId).update({ status, closed });
+  }
+
+  async publishBidCount(auctionId: string, totalBids: number) {
+    await this.auctionRef(auctionId).update({ totalBids });
+  }
+
+  async publishBid(
+    auctionId: string,
+    bid: RealtimeBid,
+    room: RealtimeRoomCounters & { endTime: Date; extensionCount: number }
+  ) {
+    await this.auctionRef(auctionId).update({
+      [`bids/${bid.id}`]: serializeBid(bid),
+      currentHighestBid: room.currentHighestBid,
+      currentHighestBidderId: room.currentHighestBidderId,
+      totalBids: room.totalBids,
+      endTime: room.endTime.toISOString(),
+      extensionCount: room.extensionCount,
+    });
+  }
+
+  async syncRoomState(
+    auctionId: string,
+    bids: RealtimeBid[],
+    room: RealtimeRoomCounters
+  ) {
+    const bidUpdates = Object.fromEntries(
+      bids.map((bid) => [`bids/${bid.id}`, serializeBid(bid)])
+    );
+    await this.auctionRef(auctionId).update({
+      ...bidUpdates,
+      currentHighestBid: room.currentHighestBid,
+      currentHighestBidderId: room.currentHighestBidderId,
+      totalBids: room.totalBids,
+    });
+  }
+
+  async removeBid(
+    auctionId: string,
+    bidId: string,
+    room: RealtimeRoomCounters
+  ) {
+    // Writing null deletes the child in RTDB
+    await this.auctionRef(auctionId).update({
+      [`bids/${bidId}`]: null,
+      currentHighestBid: room.currentHighestBid,
+      currentHighestBidderId: room.currentHighestBidderId,
+      totalBids: room.totalBids,
+    });
+  }
+
+  async publishPresence(auctionId: string, presence: RealtimePresence) {
+    await this.auctionRef(auctionId).update({
+      [`presence/${presence.userId}`]: serializePresence(presence),
+    });
+  }
+
+  async getRoom(auctionId: string) {
+    const snapshot = await this.auctionRef(auctionId).once("value");
+    return snapshot.val();
+  }
+}
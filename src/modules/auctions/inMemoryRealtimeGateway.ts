@@ -0,0 +1,170 @@
+import {
+  AuctionRealtimeGateway,
+  RealtimeBid,
+  RealtimePresence,
+  RealtimeRoomCounters,
+  RealtimeRoomSettings,
+  serializeBid,
+  serializePresence,
+  serializeSettings,
+} from "./auctionRealtimeGateway";
+
+// Rooms in these states are final; Postgres keeps their record
+export const FINAL_ROOM_STATUSES = ["ended", "cancelled"];
+
+export interface RealtimeEvent {
+  auctionId: string;
+  type: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * Keeps every live room in process memory using the same layout as the
+ * RTDB node. Lets auctions run locally without Firebase, and tests can
+ * read `events` to assert what clients would have received. Rooms are
+ * dropped once they end or are cancelled.
+ */
+export class InMemoryRealtimeGateway implements AuctionRealtimeGateway {
+  protected rooms = new Map<string, Record<string, any>>();
+  readonly events: RealtimeEvent[] = [];
+
+  /**
+   * Apply an RTDB-style update where keys may be `child/key` paths
+   */
+  private update(auctionId: string, updates: Record<string, any>) {
+    const room = this.rooms.get(auctionId) ?? {};
+    for (const [path, value] of Object.entries(updates)) {
+      const [key, child] = path.split("/");
+      if (child === undefined) {
+        room[key] = value;
+      } else {
+        room[key] = { ...(room[key] ?? {}), [child]: value };
+      }
+    }
+    this.rooms.set(auctionId, room);
+  }
+
+  /**
+   * Deliver a change to clients. Here it is only recorded; the
+   * WebSocket gateway broadcasts it to the room's sockets instead.
+   */
+  protected emit(
+    auctionId: string,
+    type: string,
+    payload: Record<string, any>
+  ) {
+    this.events.push({ auctionId, type, payload });
+  }
+
+  async initRoom(auctionId: string, room: RealtimeRoomSettings) {
+    const state = {
+      ...serializeSettings(room),
+      currentHighestBid: null,
+      currentHighestBidderId: null,
+      totalBids: 0,
+    };
+    this.rooms.set(auctionId, state);
+    this.emit(auctionId, "room:init", state);
+  }
+
+  async updateRoomSettings(auctionId: string, room: RealtimeRoomSettings) {
+    const settings = serializeSettings(room);
+    this.update(auctionId, settings);
+    this.emit(auctionId, "room:settings", settings);
+  }
+
+  async setRoomStatus(auctionId: string, status: string, closed: boolean) {
+    this.update(auctionId, { status, closed });
+    this.emit(auctionId, "room:status", { status, closed });
+    if (FINAL_ROOM_STATUSES.includes(status)) {
+      this.rooms.delete(auctionId);
+    }
+  }
+
+  async publishBidCount(auctionId: string, totalBids: number) {
+    this.update(auctionId, { totalBids });
+    this.emit(auctionId, "bid:count", { totalBids });
+  }
+
+  async publishBid(
+    auctionId: string,
+    bid: RealtimeBid,
+    room: RealtimeRoomCounters & { endTime: Date; extensionCount: number }
+  ) {
+    const counters = {
+      currentHighestBid: room.currentHighestBid,
+      currentHighestBidderId: room.currentHighestBidderId,
+      totalBids: room.totalBids,
+      endTime: room.endTime.toISOString(),
+      extensionCount: room.extensionCount,
+    };
+    this.update(auctionId, {
+      [`bids/${bid.id}`]: serializeBid(bid),
+      ...counters,
+    });
+    this.emit(auctionId, "bid", {
+      bid: { id: bid.id, ...serializeBid(bid) },
+      ...counters,
+    });
+  }
+
+  async syncRoomState(
+    auctionId: string,
+    bids: RealtimeBid[],
+    room: RealtimeRoomCounters
+  ) {
+    const counters = {
+      currentHighestBid: room.currentHighestBid,
+      currentHighestBidderId: room.currentHighestBidderId,
+      totalBids: room.totalBids,
+    };
+    this.update(auctionId, {
+      ...Object.fromEntries(
+        bids.map((bid) => [`bids/${bid.id}`, serializeBid(bid)])
+      ),
+      ...counters,
+    });
+    this.emit(auctionId, "room:sync", this.rooms.get(auctionId) ?? counters);
+  }
+
+  async removeBid(
+    auctionId: string,
+    bidId: string,
+    room: RealtimeRoomCounters
+  ) {
+    const counters = {
+      currentHighestBid: room.currentHighestBid,
+      currentHighestBidderId: room.currentHighestBidderId,
+      totalBids: room.totalBids,
+    };
+    const state = this.rooms.get(auctionId);
+    if (state?.bids) {
+      state.bids = { ...state.bids };
+      delete state.bids[bidId];
+    }
+    this.update(auctionId, counters);
+    this.emit(auctionId, "bid:removed", { bidId, ...counters });
+  }
+
+  async publishPresence(auctionId: string, presence: RealtimePresence) {
+    this.update(auctionId, {
+      [`presence/${presence.userId}`]: serializePresence(presence),
+    });
+    this.emit(auctionId, "presence", {
+      userId: presence.userId,
+      ...serializePresence(presence),
+    });
+  }
+
+  async getRoom(auctionId: string) {
+    return this.rooms.get(auctionId) ?? null;
+  }
+
+  /**
+   * Drop all rooms and recorded events (between tests)
+   */
+  reset() {
+    this.rooms.clear();
+    this.events.length = 0;
+  }
+}
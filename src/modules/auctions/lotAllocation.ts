@@ -0,0 +1,93 @@
+/**
+ * Quantity allocation for multi-lot auctions.
+ *
+ * In a multi-lot room (AuctionRoom.lotSize set) each bid is a price per
+ * unit for a requested quantity, in multiples of lotSize. A bidder's most
+ * recent bid is their standing bid. Quantity is allocated from the highest
+ * price per unit down until the product quantity runs out; the marginal
+ * bidder may be filled partially (in whole lots). Bids below the reserve
+ * price per unit are never allocated. Winners pay their own price.
+ */
+
+export interface LotBid {
+  id: string;
+  bidderId: string;
+  amount: number;
+  quantity: number | null;
+  timestamp: Date;
+}
+
+export interface LotAllocation {
+  bidId: string;
+  bidderId: string;
+  // Price per unit
+  amount: number;
+  quantity: number;
+}
+
+export interface LotAllocationResult {
+  allocations: LotAllocation[];
+  // Quantity left unsold
+  remaining: number;
+  // Lowest allocated price once all quantity is taken, else null
+  clearingPrice: number | null;
+}
+
+/**
+ * The latest bid of each bidder, best price first; equal prices go to
+ * the earlier bid
+ */
+export const getStandingBids = <T extends LotBid>(bids: T[]): T[] => {
+  const latest = new Map<string, T>();
+  for (const bid of bids) {
+    const current = latest.get(bid.bidderId);
+    if (!current || bid.timestamp >= current.timestamp) {
+      latest.set(bid.bidderId, bid);
+    }
+  }
+
+  return [...latest.values()].sort((a, b) =>
+    b.amount === a.amount
+      ? a.timestamp.getTime() - b.timestamp.getTime()
+      : b.amount - a.amount
+  );
+};
+
+/**
+ * Allocate totalQuantity to the standing bids of a multi-lot room
+ */
+export const allocateLots = (
+  bids: LotBid[],
+  totalQuantity: number,
+  lotSize: number,
+  reservePrice: number | null
+): LotAllocationResult => {
+  const allocations: LotAllocation[] = [];
+  let remaining = totalQuantity;
+
+  for (const bid of getStandingBids(bids)) {
+    if (remaining < lotSize) break;
+    if (reservePrice && bid.amount < reservePrice) continue;
+
+    const available = Math.floor(remaining / lotSize) * lotSize;
+    const quantity = Math.min(bid.quantity ?? 0, available);
+    if (quantity <= 0) continue;
+
+    allocations.push({
+      bidId: bid.id,
+      bidderId: bid.bidderId,
+      amount: bid.amount,
+      quantity,
+    });
+    remaining -= quantity;
+  }
+
+  return {
+    allocations,
+    remaining,
+    clearingPrice:
+      remaining < lotSize && allocations.length
+        ? allocations[allocations.length - 1].amount
+        : null,
+  };
+};
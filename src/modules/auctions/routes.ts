@@ -1,18 +1,138 @@
 import express from "express";
-import { getAllAuctions, getAuctionById } from "./auctionController";
+import {
+  getAllAuctions,
+  getAuctionAnalytics,
+  getAuctionById,
+  placeBid,
+  retractBid,
+  acceptDutchPrice,
+  setProxyBid,
+  getMyProxyBid,
+  cancelProxyBid,
+  createProcurementAuction,
+  cancelAuction,
+  watchAuction,
+  unwatchAuction,
+  getWatchlist,
+  getBidderEligibility,
+  exportAuctionRecord,
+  getSettlements,
+  confirmSettlement,
+  disputeSettlement,
+  createSecondChanceOffer,
+  getSecondChanceOffers,
+  acceptSecondChanceOffer,
+  declineSecondChanceOffer,
+} from "./auctionController";
 
 const router = express.Router();
 
-// GET /api/auctions - Get all auctions with filtering and pagination
+// GET /api/auctions - Search auctions with filtering and cursor pagination.
+// Returns a light list projection (product summary and counts, no bid
+// history or participant list); pagination.total counts matching rooms.
 // Query parameters:
 // - status: filter by auction status (active, ended, scheduled, cancelled)
-// - limit: number of results per page (default: 20)
-// - offset: number of results to skip (default: 0)
-// - sortBy: sort field (createdAt, endTime, currentHighestBid, totalBids)
+// - category, city, state: filter by product (case-insensitive)
+// - minPrice, maxPrice: current price range (best bid, else starting bid)
+// - endingWithinHours: rooms ending within this many hours
+// - sellerId: rooms of one seller
+// - hasReserve: true or false
+// - limit: number of results per page (default: 20, max: 100)
+// - cursor: pagination.nextCursor from the previous page
+// - sortBy: sort field (createdAt, endTime, currentHighestBid, totalBids);
+//   sorting by currentHighestBid leaves out sealed rooms
 // - sortOrder: asc or desc (default: desc)
 router.get("/", getAllAuctions);
 
+// POST /api/auctions/procurement - Buyer posts a requirement as a reverse
+// auction; sellers bid the price down and the lowest bid wins
+// Body: { commodity, quantity, unit, deliveryCity, deliveryState?, grade?,
+//         variety?, title?, description?, startingBid (ceiling), endTime,
+//         startTime?, reservePrice? (max accepted), minBidIncrement? (decrement),
+//         auctionType?, sealedPricing? }
+router.post("/procurement", createProcurementAuction);
+
+// GET /api/auctions/watchlist - Auctions the caller is watching, soonest
+// ending first. Watchers get ending-soon reminders.
+router.get("/watchlist", getWatchlist);
+
+// GET /api/auctions/analytics - Closed auction metrics (sell-through,
+// reserve-met rate, clearing price per unit, uplift over starting bid, bids
+// and participants per auction). Sellers get their own auctions; admins
+// the whole market, or one seller's with sellerId.
+// Query parameters:
+// - category, city: filter by product category or city
+// - from, to: closing time window (default: the last 90 days)
+// - groupBy: category (default), city or month
+router.get("/analytics", getAuctionAnalytics);
+
 // GET /api/auctions/:auctionId - Get single auction with full details
 router.get("/:auctionId", getAuctionById);
 
+// GET /api/auctions/:auctionId/export?format=csv|pdf - Record of a closed
+// or cancelled auction for the seller, a winner or an admin: CSV with the
+// outcome, bid history and participants, or a PDF auction certificate.
+// Both carry a SHA-256 hash over the bid list (see auctionExport.ts).
+router.get("/:auctionId/export", exportAuctionRecord);
+
+// POST /api/auctions/:auctionId/bids - Place a bid (validated server-side)
+// Body: { amount: number, quantity?: number } - multi-lot auctions bid a
+// price per unit for a quantity in whole lots; a new bid replaces the
+// bidder's standing bid
+router.post("/:auctionId/bids", placeBid);
+
+// POST /api/auctions/:auctionId/bids/:bidId/retract - Take back your own bid
+// within AUCTION_BID_RETRACTION_SECONDS (default 60) of placing it, while
+// the auction runs. Proxy, buy now and Dutch accept bids cannot be
+// retracted; your proxy bid is stopped. The room is recalculated from the
+// remaining bids.
+router.post("/:auctionId/bids/:bidId/retract", retractBid);
+
+// POST /api/auctions/:auctionId/accept - Dutch auctions only: buy the lot at
+// the current clock price; the first bidder to accept wins and the room closes
+router.post("/:auctionId/accept", acceptDutchPrice);
+
+// POST /api/auctions/:auctionId/cancel - Cancel a scheduled or running auction
+// Body: { reason: "seller_withdrawn" | "product_unavailable" | "pricing_error" |
+//         "duplicate_listing" | "suspected_fraud" | "policy_violation" | "other",
+//         note? (required for "other") }
+// Owners can cancel until the first bid; afterwards only admins can.
+router.post("/:auctionId/cancel", cancelAuction);
+
+// Watchlist - watch or unwatch a scheduled or running auction
+router.post("/:auctionId/watch", watchAuction);
+router.delete("/:auctionId/watch", unwatchAuction);
+
+// GET /api/auctions/:auctionId/eligibility - The room's bidder rules
+// (profile, WhatsApp, roles, distance, deposit), whether the caller meets
+// them and their deposit balance. Bids from ineligible users get a 403.
+router.get("/:auctionId/eligibility", getBidderEligibility);
+
+// Settlement of a sold auction between seller and winner (one per winner
+// on multi-lot auctions). GET returns the seller all of them and a winner
+// their own. Each side confirms a settlement; it becomes "confirmed" once
+// both have. Either side can dispute a pending settlement.
+// Confirm body: { winnerId? }; dispute body: { reason: string, winnerId? }.
+// The seller passes winnerId when the auction has several winners.
+router.get("/:auctionId/settlement", getSettlements);
+router.post("/:auctionId/settlement/confirm", confirmSettlement);
+router.post("/:auctionId/settlement/dispute", disputeSettlement);
+
+// Second-chance offers - when the winner backs out the seller offers the lot
+// to the next best distinct bidder at that bidder's best bid
+// POST body: { expiresInHours? } (default 24, max 168). Allowed once the
+// settlement is disputed or the winner has not confirmed it within
+// AUCTION_WINNER_CONFIRMATION_HOURS (default 48) of being notified. One
+// offer can be pending at a time; the offered bidder accepts or declines it.
+router.post("/:auctionId/second-chance", createSecondChanceOffer);
+router.get("/:auctionId/second-chance", getSecondChanceOffers);
+router.post("/:auctionId/second-chance/accept", acceptSecondChanceOffer);
+router.post("/:auctionId/second-chance/decline", declineSecondChanceOffer);
+
+// Proxy (maximum) bidding - the server auto-bids up to maxAmount
+// POST body: { maxAmount: number }. Only the owner can read their maximum.
+router.post("/:auctionId/proxy-bid", setProxyBid);
+router.get("/:auctionId/proxy-bid", getMyProxyBid);
+router.delete("/:auctionId/proxy-bid", cancelProxyBid);
+
 export default router;
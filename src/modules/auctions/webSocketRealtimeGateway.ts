@@ -0,0 +1,111 @@
+import prisma from "../../prisma";
+import {
+  FINAL_ROOM_STATUSES,
+  InMemoryRealtimeGateway,
+} from "./inMemoryRealtimeGateway";
+
+/**
+ * Minimal socket surface the gateway needs; a `ws` WebSocket fits it
+ */
+export interface RealtimeSocket {
+  readyState: number;
+  send(data: string): void;
+}
+
+const SOCKET_OPEN = 1;
+// Sessions expire unless the client keeps the connection alive
+export const WEBSOCKET_SESSION_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * Built-in WebSocket transport. Room state is held in process memory
+ * (same layout as the RTDB node) and every change is broadcast to the
+ * sockets joined to that room. Each socket is recorded as a
+ * `WebSocketConnection` session so presence survives across handlers
+ * and stale sessions can be cleaned up.
+ */
+export class WebSocketRealtimeGateway extends InMemoryRealtimeGateway {
+  // auctionId -> connectionId -> socket
+  private sockets = new Map<string, Map<string, RealtimeSocket>>();
+
+  protected emit(
+    auctionId: string,
+    type: string,
+    payload: Record<string, any>
+  ) {
+    const roomSockets = this.sockets.get(auctionId);
+    if (!roomSockets) return;
+
+    const message = JSON.stringify({ type, auctionId, payload });
+    for (const socket of roomSockets.values()) {
+      if (socket.readyState === SOCKET_OPEN) {
+        socket.send(message);
+      }
+    }
+  }
+
+  /**
+   * Attach a socket to a room, persist its session and send the
+   * current room snapshot to it
+   */
+  async joinRoom(
+    auctionId: string,
+    connectionId: string,
+    socket: RealtimeSocket,
+    userId: string | null
+  ) {
+    const roomSockets = this.sockets.get(auctionId) ?? new Map();
+    roomSockets.set(connectionId, socket);
+    this.sockets.set(auctionId, roomSockets);
+
+    const expiresAt = new Date(Date.now() + WEBSOCKET_SESSION_TTL_MS);
+    await prisma.webSocketConnection.upsert({
+      where: { connectionId },
+      create: { connectionId, auctionRoomId: auctionId, userId, expiresAt },
+      update: { auctionRoomId: auctionId, userId, expiresAt },
+    });
+
+    if (socket.readyState === SOCKET_OPEN) {
+      socket.send(
+        JSON.stringify({
+          type: "room:snapshot",
+          auctionId,
+          payload: await this.getRoom(auctionId),
+        })
+      );
+    }
+  }
+
+  /**
+   * Detach a socket from a room and end its session
+   */
+  async leaveRoom(auctionId: string, connectionId: string) {
+    const roomSockets = this.sockets.get(auctionId);
+    roomSockets?.delete(connectionId);
+    if (roomSockets && roomSockets.size === 0) {
+      this.sockets.delete(auctionId);
+      // Joining a closed room hydrates it again; drop it with its last viewer
+      if (FINAL_ROOM_STATUSES.includes(this.rooms.get(auctionId)?.status)) {
+        this.rooms.delete(auctionId);
+      }
+    }
+
+    await prisma.webSocketConnection.deleteMany({ where: { connectionId } });
+  }
+
+  /**
+   * Extend a live session's expiry
+   */
+  async touchConnection(connectionId: string) {
+    await prisma.webSocketConnection.updateMany({
+      where: { connectionId },
+      data: { expiresAt: new Date(Date.now() + WEBSOCKET_SESSION_TTL_MS) },
+    });
+  }
+
+  /**
+   * Number of sockets currently joined to a room on this instance
+   */
+  connectionCount(auctionId: string) {
+    return this.sockets.get(auctionId)?.size ?? 0;
+  }
+}
@@ -0,0 +1,221 @@
+import { Request, Response } from "express";
+import { OrderStatus } from "@prisma/client";
+import {
+  OrderService,
+  OrderFilters,
+  OrderResult,
+  ORDER_ROLES,
+  ORDER_STATUSES,
+} from "./orderService";
+import { isAdminRequest } from "../../middleware/authMiddleware";
+
+interface AuthenticatedRequest extends Request {
+  user: { uid: string };
+}
+
+// Place an order for a marketplace listing
+export async function createOrder(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { productId, quantity, note } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (!productId || quantity === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing required fields: productId, quantity",
+      });
+    }
+
+    const result = await OrderService.createOrder(userId, {
+      productId: String(productId),
+      quantity: Number(quantity),
+      note: note ? String(note) : undefined,
+    });
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(201).json({ success: true, data: result.order });
+  } catch (error) {
+    console.error("Error creating order:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to create order",
+    });
+  }
+}
+
+// Orders the caller placed or received
+export async function getOrders(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { role = "buyer", status, cursor, limit = 20 } = req.query;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    if (!ORDER_ROLES.includes(String(role))) {
+      return res.status(400).json({
+        success: false,
+        error: `role must be one of ${ORDER_ROLES.join(", ")}`,
+      });
+    }
+
+    if (status !== undefined && !ORDER_STATUSES.includes(String(status))) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of ${ORDER_STATUSES.join(", ")}`,
+      });
+    }
+
+    const parsedLimit = parseInt(limit as string);
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
+      return res.status(400).json({
+        success: false,
+        error: "limit must be between 1 and 100",
+      });
+    }
+
+    const filters: OrderFilters = {
+      role: role as OrderFilters["role"],
+      status: status as OrderStatus | undefined,
+      cursor: cursor as string | undefined,
+      limit: parsedLimit,
+    };
+
+    const result = await OrderService.getOrders(userId, filters);
+
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error fetching orders:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch orders",
+    });
+  }
+}
+
+// A single order, for its buyer, its seller or an admin
+export async function getOrderById(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { orderId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const order = await OrderService.getOrderById(
+      orderId,
+      userId,
+      isAdminRequest(req)
+    );
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: "Order not found",
+      });
+    }
+
+    return res.status(200).json({ success: true, data: order });
+  } catch (error) {
+    console.error("Error fetching order:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch order",
+    });
+  }
+}
+
+// Move an order to another status on behalf of the caller
+async function updateOrderStatus(
+  req: Request,
+  res: Response,
+  action: string,
+  update: (
+    orderId: string,
+    userId: string,
+    reason?: string
+  ) => Promise<OrderResult>
+) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { orderId } = req.params;
+    const { reason } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const result = await update(
+      orderId,
+      userId,
+      reason ? String(reason) : undefined
+    );
+
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(200).json({ success: true, data: result.order });
+  } catch (error) {
+    console.error(`Error trying to ${action} order:`, error);
+    return res.status(500).json({
+      success: false,
+      error: `Failed to ${action} order`,
+    });
+  }
+}
+
+// Seller accepts a pending order
+export async function acceptOrder(req: Request, res: Response) {
+  return updateOrderStatus(req, res, "accept", (orderId, userId) =>
+    OrderService.acceptOrder(orderId, userId)
+  );
+}
+
+// Seller rejects a pending order
+export async function rejectOrder(req: Request, res: Response) {
+  return updateOrderStatus(req, res, "reject", (orderId, userId, reason) =>
+    OrderService.rejectOrder(orderId, userId, reason)
+  );
+}
+
+// Buyer or seller cancels an order that is not completed
+export async function cancelOrder(req: Request, res: Response) {
+  return updateOrderStatus(req, res, "cancel", (orderId, userId, reason) =>
+    OrderService.cancelOrder(orderId, userId, reason)
+  );
+}
+
+// Buyer or seller marks an accepted order completed
+export async function completeOrder(req: Request, res: Response) {
+  return updateOrderStatus(req, res, "complete", (orderId, userId) =>
+    OrderService.completeOrder(orderId, userId)
+  );
+}
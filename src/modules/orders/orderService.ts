@@ -0,0 +1,452 @@
+import { Order, OrderStatus } from "@prisma/client";
+import prisma from "../../prisma";
+import {
+  notifyOrderPlaced,
+  notifyOrderStatusChanged,
+} from "../../jobs/notificationJobs";
+
+// Types for service functions
+export interface CreateOrderInput {
+  productId: string;
+  quantity: number;
+  note?: string;
+}
+
+export interface OrderFilters {
+  // Orders the caller placed ("buyer") or received ("seller")
+  role: "buyer" | "seller";
+  status?: OrderStatus;
+  limit: number;
+  cursor?: string;
+}
+
+export type OrderResult =
+  | { success: true; order: Order }
+  | { success: false; statusCode: number; error: string };
+
+type OrderUpdateStatus = Exclude<OrderStatus, "PENDING">;
+
+interface OrderTransition {
+  from: OrderStatus[];
+  actor: "buyer" | "seller" | "either";
+  // The reserved quantity goes back to the listing
+  releasesStock: boolean;
+}
+
+const MAX_ORDER_NOTE_LENGTH = 1000;
+export const ORDER_ROLES = ["buyer", "seller"];
+export const ORDER_STATUSES: string[] = Object.values(OrderStatus);
+
+/**
+ * Order lifecycle: the seller accepts or rejects a pending order, either
+ * party can cancel it until it is completed, and either party marks an
+ * accepted order completed once the goods are handed over
+ */
+const ORDER_TRANSITIONS: Record<OrderUpdateStatus, OrderTransition> = {
+  ACCEPTED: { from: ["PENDING"], actor: "seller", releasesStock: false },
+  REJECTED: { from: ["PENDING"], actor: "seller", releasesStock: true },
+  CANCELLED: {
+    from: ["PENDING", "ACCEPTED"],
+    actor: "either",
+    releasesStock: true,
+  },
+  COMPLETED: { from: ["ACCEPTED"], actor: "either", releasesStock: false },
+};
+
+// Service class for marketplace order business logic
+export class OrderService {
+  /**
+   * Place a fixed-price order for a marketplace listing.
+   * The product row is locked while the quantity is checked against the
+   * listing's order limits and stock, then reserved by decrementing
+   * availableQty. A listing whose stock reaches zero is marked SOLD_OUT.
+   */
+  static async createOrder(
+    buyerId: string,
+    input: CreateOrderInput
+  ): Promise<OrderResult> {
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: "Quantity must be a positive whole number",
+      };
+    }
+
+    const note = input.note?.trim() || null;
+    if (note && note.length > MAX_ORDER_NOTE_LENGTH) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: `Note must be at most ${MAX_ORDER_NOTE_LENGTH} characters`,
+      };
+    }
+
+    const buyer = await prisma.user.findUnique({
+      where: { id: buyerId },
+      select: { id: true },
+    });
+
+    if (!buyer) {
+      return {
+        success: false,
+        statusCode: 404,
+        error: "User not found in database. Please complete onboarding first.",
+      };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM products WHERE id = ${input.productId} FOR UPDATE`;
+
+      const product = await tx.product.findUnique({
+        where: { id: input.productId },
+      });
+
+      if (!product || product.environment !== "MARKETPLACE") {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Product not found",
+        };
+      }
+
+      if (product.userId === buyerId) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: "You cannot order your own product",
+        };
+      }
+
+      if (product.status !== "ACTIVE") {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error:
+            product.status === "SOLD_OUT"
+              ? "This product is sold out"
+              : "This product is not available for ordering",
+        };
+      }
+
+      if (!product.price || product.priceType === "AUCTION_BASED") {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "This product has no fixed price",
+        };
+      }
+
+      const now = new Date();
+      if (
+        (product.availableFrom && product.availableFrom > now) ||
+        (product.availableUntil && product.availableUntil < now)
+      ) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: "This product is not available for ordering right now",
+        };
+      }
+
+      const minQty = product.minOrderQty ?? 1;
+      if (input.quantity < minQty) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: `The minimum order is ${minQty} ${product.unit}`,
+        };
+      }
+
+      if (product.maxOrderQty && input.quantity > product.maxOrderQty) {
+        return {
+          success: false as const,
+          statusCode: 400,
+          error: `The maximum order is ${product.maxOrderQty} ${product.unit}`,
+        };
+      }
+
+      const available = product.availableQty ?? 0;
+      if (input.quantity > available) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: `Only ${available} ${product.unit} available`,
+        };
+      }
+
+      await tx.product.update({
+        where: { id: product.id },
+        data: {
+          availableQty: { decrement: input.quantity },
+          ...(available === input.quantity && { status: "SOLD_OUT" }),
+        },
+      });
+
+      const order = await tx.order.create({
+        data: {
+          productId: product.id,
+          buyerId,
+          sellerId: product.userId,
+          quantity: input.quantity,
+          unit: product.unit,
+          pricePerUnit: product.price,
+          totalPrice: product.price * input.quantity,
+          buyerNote: note,
+        },
+      });
+
+      return { success: true as const, order, title: product.title };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    notifyOrderPlaced(
+      result.order.sellerId,
+      result.title,
+      result.order.quantity,
+      result.order.unit,
+      result.order.totalPrice
+    ).catch((error) => {
+      console.error("Failed to send new order notification:", error);
+    });
+
+    return { success: true, order: result.order };
+  }
+
+  /**
+   * Orders the user placed or received, newest first, with cursor
+   * pagination
+   */
+  static async getOrders(userId: string, filters: OrderFilters) {
+    const where = {
+      ...(filters.role === "buyer"
+        ? { buyerId: userId }
+        : { sellerId: userId }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const orders = await prisma.order.findMany({
+      where,
+      include: {
+        product: {
+          select: {
+            id: true,
+            title: true,
+            category: true,
+            images: true,
+            serialNumber: true,
+          },
+        },
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      // One extra row tells whether another page exists
+      take: filters.limit + 1,
+      ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+    });
+
+    const hasMore = orders.length > filters.limit;
+    const page = hasMore ? orders.slice(0, filters.limit) : orders;
+
+    return {
+      orders: page,
+      pagination: {
+        limit: filters.limit,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+        hasMore,
+      },
+    };
+  }
+
+  /**
+   * A single order for its buyer, its seller or an admin; null otherwise
+   */
+  static async getOrderById(orderId: string, userId: string, isAdmin: boolean) {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        product: {
+          select: {
+            id: true,
+            title: true,
+            category: true,
+            images: true,
+            serialNumber: true,
+            city: true,
+            state: true,
+          },
+        },
+        buyer: {
+          select: { id: true, name: true, businessName: true, city: true },
+        },
+        seller: {
+          select: { id: true, name: true, businessName: true, city: true },
+        },
+      },
+    });
+
+    if (!order) return null;
+    if (!isAdmin && order.buyerId !== userId && order.sellerId !== userId) {
+      return null;
+    }
+    return order;
+  }
+
+  /**
+   * Move an order to a new status following ORDER_TRANSITIONS. Rejected
+   * and cancelled orders return their quantity to the listing, which is
+   * put back on sale if it had sold out. The other party is notified.
+   */
+  private static async transitionOrder(
+    orderId: string,
+    userId: string,
+    status: OrderUpdateStatus,
+    reason: string | null = null
+  ): Promise<OrderResult> {
+    if (reason && reason.length > MAX_ORDER_NOTE_LENGTH) {
+      return {
+        success: false,
+        statusCode: 400,
+        error: `Reason must be at most ${MAX_ORDER_NOTE_LENGTH} characters`,
+      };
+    }
+
+    const transition = ORDER_TRANSITIONS[status];
+    const action = status.toLowerCase();
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: { product: { select: { title: true } } },
+      });
+      const isBuyer = order?.buyerId === userId;
+      const isSeller = order?.sellerId === userId;
+
+      if (!order || (!isBuyer && !isSeller)) {
+        return {
+          success: false as const,
+          statusCode: 404,
+          error: "Order not found",
+        };
+      }
+
+      if (
+        (transition.actor === "buyer" && !isBuyer) ||
+        (transition.actor === "seller" && !isSeller)
+      ) {
+        return {
+          success: false as const,
+          statusCode: 403,
+          error: `Only the ${transition.actor} can mark this order ${action}`,
+        };
+      }
+
+      if (!transition.from.includes(order.status)) {
+        return {
+          success: false as const,
+          statusCode: 409,
+          error: `Only ${transition.from.join(" or ").toLowerCase()} orders can be ${action}`,
+        };
+      }
+
+      if (transition.releasesStock) {
+        await tx.product.update({
+          where: { id: order.productId },
+          data: { availableQty: { increment: order.quantity } },
+        });
+        await tx.product.updateMany({
+          where: {
+            id: order.productId,
+            status: "SOLD_OUT",
+            availableQty: { gt: 0 },
+          },
+          data: { status: "ACTIVE" },
+        });
+      }
+
+      const now = new Date();
+      const updated = await tx.order.update({
+        where: { id: orderId },
+        data: {
+          status,
+          ...(status === "ACCEPTED" && { acceptedAt: now }),
+          ...(status === "REJECTED" && {
+            rejectedAt: now,
+            statusReason: reason,
+          }),
+          ...(status === "CANCELLED" && {
+            cancelledAt: now,
+            cancelledBy: userId,
+            statusReason: reason,
+          }),
+          ...(status === "COMPLETED" && { completedAt: now }),
+        },
+      });
+
+      return {
+        success: true as const,
+        order: updated,
+        title: order.product.title,
+        notifyUserId: isBuyer ? order.sellerId : order.buyerId,
+      };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    notifyOrderStatusChanged(
+      result.notifyUserId,
+      result.title,
+      status,
+      reason
+    ).catch((error) => {
+      console.error("Failed to send order update notification:", error);
+    });
+
+    return { success: true, order: result.order };
+  }
+
+  /**
+   * Seller accepts a pending order
+   */
+  static async acceptOrder(orderId: string, sellerId: string) {
+    return this.transitionOrder(orderId, sellerId, "ACCEPTED");
+  }
+
+  /**
+   * Seller rejects a pending order; the quantity goes back on sale
+   */
+  static async rejectOrder(orderId: string, sellerId: string, reason?: string) {
+    return this.transitionOrder(
+      orderId,
+      sellerId,
+      "REJECTED",
+      reason?.trim() || null
+    );
+  }
+
+  /**
+   * Buyer or seller cancels an order that is not yet completed; the
+   * quantity goes back on sale
+   */
+  static async cancelOrder(orderId: string, userId: string, reason?: string) {
+    return this.transitionOrder(
+      orderId,
+      userId,
+      "CANCELLED",
+      reason?.trim() || null
+    );
+  }
+
+  /**
+   * Buyer or seller marks an accepted order completed
+   */
+  static async completeOrder(orderId: string, userId: string) {
+    return this.transitionOrder(orderId, userId, "COMPLETED");
+  }
+}
@@ -0,0 +1,40 @@
+import express from "express";
+import {
+  createOrder,
+  getOrders,
+  getOrderById,
+  acceptOrder,
+  rejectOrder,
+  cancelOrder,
+  completeOrder,
+} from "./orderController";
+
+const router = express.Router();
+
+// POST /api/orders - Order a fixed-price marketplace listing
+// Body: { productId, quantity, note? }
+// The quantity must be within the listing's minOrderQty and maxOrderQty and
+// is reserved from availableQty; the listing is SOLD_OUT once it hits zero.
+router.post("/", createOrder);
+
+// GET /api/orders - The caller's orders, newest first
+// Query parameters:
+// - role: buyer (orders placed, default) or seller (orders received)
+// - status: PENDING, ACCEPTED, REJECTED, CANCELLED or COMPLETED
+// - limit: number of results per page (default: 20, max: 100)
+// - cursor: pagination.nextCursor from the previous page
+router.get("/", getOrders);
+
+// GET /api/orders/:orderId - A single order (buyer, seller or admin)
+router.get("/:orderId", getOrderById);
+
+// Order lifecycle. The seller accepts or rejects a pending order; either
+// party cancels it until it is completed and marks an accepted order
+// completed. Rejecting and cancelling return the quantity to the listing.
+// Reject and cancel body: { reason? }
+router.post("/:orderId/accept", acceptOrder);
+router.post("/:orderId/reject", rejectOrder);
+router.post("/:orderId/cancel", cancelOrder);
+router.post("/:orderId/complete", completeOrder);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Request, Response } from "express";
 import prisma from "../../prisma";
 import axios from "axios";
+import { AuctionService } from "../auctions/auctionService";
+import { parseAuctionScheduleInput } from "../auctions/auctionScheduleInput";
 
 // Add AuthenticatedRequest type for req.user
 interface AuthenticatedRequest extends Request {
@@ -706,9 +708,92 @@ export async function getAuctionRoomDetails(req: Request, res: Response) {
       return res.status(404).json({ error: "Auction room not found" });
     }
 
-    return res.status(200).json({ success: true, auctionRoom });
+    return res.status(200).json({
+      success: true,
+      auctionRoom: AuctionService.redactSealedBids(auctionRoom),
+    });
   } catch (error) {
     console.error("Error fetching auction room details:", error);
     return res.status(500).json({ error: "Server error" });
   }
 }
+
+// Put a product up for auction
+export async function createProductAuction(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { productId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    if (!productId) {
+      return res.status(400).json({ error: "Product ID is required" });
+    }
+
+    const parsed = parseAuctionScheduleInput(req.body || {});
+    if ("error" in parsed) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    const result = await AuctionService.createAuctionRoom(
+      productId,
+      userId,
+      parsed.input
+    );
+
+    if (!result.success) {
+      return res
+        .status(result.statusCode)
+        .json({ success: false, error: result.error });
+    }
+
+    return res.status(201).json({ success: true, auctionRoom: result.auction });
+  } catch (error) {
+    console.error("Error creating auction:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+}
+
+// Edit or reschedule a product's auction (locked once bidding starts)
+export async function updateProductAuction(req: Request, res: Response) {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { productId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    if (!productId) {
+      return res.status(400).json({ error: "Product ID is required" });
+    }
+
+    const parsed = parseAuctionScheduleInput(req.body || {});
+    if ("error" in parsed) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    const result = await AuctionService.updateAuctionRoom(
+      productId,
+      userId,
+      parsed.input
+    );
+
+    if (!result.success) {
+      return res
+        .status(result.statusCode)
+        .json({ success: false, error: result.error });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Auction updated successfully",
+      auctionRoom: result.auction,
+    });
+  } catch (error) {
+    console.error("Error updating auction:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+}
@@ -6,6 +6,8 @@ import {
   getUserProducts,
   getProductById,
   getAuctionRoomDetails,
+  createProductAuction,
+  updateProductAuction,
 } from "./productController";
 import { verifyFirebaseToken } from "../../middleware/authMiddleware";
 
@@ -32,6 +34,20 @@ router.post("/create", verifyFirebaseToken, createProduct);
 // Update product - requires authentication
 router.put("/:productId", verifyFirebaseToken, updateProduct);
 
+// Put a product up for auction - requires authentication (owner only)
+// Body: { startingBid, endTime, startTime?, reservePrice?, minBidIncrement?,
+//         buyNowPrice?, softCloseWindowMinutes?, softCloseExtensionMinutes?,
+//         maxExtensions?, auctionType? ("english" | "sealed" | "dutch"),
+//         sealedPricing? ("first_price" | "second_price"),
+//         priceDropIntervalMinutes? (dutch only), lotSize? (multi-lot),
+//         requireCompletedProfile?, requireVerifiedWhatsapp?,
+//         allowedBidderRoles? (UserRole list), maxBidderDistanceKm?,
+//         depositAmount? (earnest money) }
+router.post("/:productId/auction", verifyFirebaseToken, createProductAuction);
+
+// Edit or reschedule an auction - locked once the first bid is placed
+router.put("/:productId/auction", verifyFirebaseToken, updateProductAuction);
+
 // Dynamic routes (must come last)
 // Get single product by ID (public access for marketplace products, owner access for drafts)
 router.get("/:productId", getProductById);
@@ -0,0 +1,42 @@
+import { Router } from "express";
+import {
+  getAuctionCloseFailures,
+  retryAuctionClose,
+  getAuctionReconciliationReport,
+  reconcileAuction,
+  recordAuctionDeposit,
+  getAuctionDeposits,
+  voidAuctionBid,
+  getAuctionBidAuditLog,
+} from "../controllers/adminController";
+
+const router = Router();
+
+/**
+ * Admin routes - mounted behind verifyFirebaseToken and requireAdmin
+ */
+
+// Auctions whose close failed too many times (status "close_failed")
+router.get("/auctions/close-failures", getAuctionCloseFailures);
+
+// Requeue a failed close and run it immediately
+router.post("/auctions/:auctionId/retry-close", retryAuctionClose);
+
+// RTDB vs Postgres bid reconciliation (report only)
+router.get("/auctions/reconciliation", getAuctionReconciliationReport);
+router.get("/auctions/:auctionId/reconciliation", reconcileAuction);
+
+// Repair mode: delete RTDB-only bids, recount live rooms and rewrite the
+// RTDB node from Postgres
+router.post("/auctions/:auctionId/reconciliation/repair", reconcileAuction);
+
+// Earnest-money deposit ledger used by the bidder eligibility rules
+router.get("/auctions/:auctionId/deposits", getAuctionDeposits);
+router.post("/auctions/:auctionId/deposits", recordAuctionDeposit);
+
+// Void a fraudulent bid in a running auction (body: { reason }) and read
+// the audit log of retracted and voided bids
+router.post("/auctions/:auctionId/bids/:bidId/void", voidAuctionBid);
+router.get("/auctions/:auctionId/bid-audit", getAuctionBidAuditLog);
+
+export { router as adminRouter };
@@ -5,6 +5,7 @@ import { auctionJobs } from "../jobs/auctionJobs";
 // import { statsJobs } from '../jobs/statsJobs';
 import { CronJobManager } from "../jobs/cronJobs";
 import { triggerWinnerNotifications } from "../controllers/adminController";
+import { sendAuctionEndingReminders } from "../jobs/notificationJobs";
 
 const router = Router();
 
@@ -31,6 +32,23 @@ router.post("/test/auction/expired", async (req, res) => {
   }
 });
 
+router.post("/test/auction/activate", async (req, res) => {
+  try {
+    const result = await auctionJobs.activateScheduledAuctions();
+    return res.json({
+      success: true,
+      message: "Scheduled auctions activation completed successfully",
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error testing scheduled auctions activation:", error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 router.post("/test/trigger-notifications", async (req, res) => {
   try {
     console.log("Testing trigger notifications...");
@@ -109,23 +127,22 @@ router.post("/test/trigger-notifications", async (req, res) => {
  * Test Notification Jobs (when uncommented)
  */
 
-// router.post('/test/notifications/ending-reminders', async (req, res) => {
-//   try {
-//     await notificationJobs.sendAuctionEndingReminders();
-//     res.json({
-//       success: true,
-//       message: 'Auction ending reminders sent successfully',
-//       timestamp: new Date().toISOString()
-//     });
-//   } catch (error) {
-//     res.status(500).json({
-//       success: false,
-//       message: 'Failed to send auction ending reminders',
-//       error: error instanceof Error ? error.message : 'Unknown error',
-//       timestamp: new Date().toISOString()
-//     });
-//   }
-// });
+router.post("/test/notifications/ending-reminders", async (req, res) => {
+  try {
+    const result = await sendAuctionEndingReminders();
+    return res.json({
+      success: true,
+      message: "Auction ending reminders sent successfully",
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error testing auction ending reminders:", error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
 
 // router.post('/test/notifications/queue', async (req, res) => {
 //   try {